@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { parseBounces } from '@/lib/bounce-parser';
+import { listBounces, recordBounces } from '@/lib/bounce-store';
+import { summarizeBounces } from '@/lib/bounces';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(summarizeBounces(listBounces()));
+}
+
+// The body is an .eml message or an mbox archive of them
+export async function POST(request: Request) {
+  const text = await request.text();
+  if (!text.trim()) {
+    return NextResponse.json({ error: 'A bounce message or mbox file is required.' }, { status: 400 });
+  }
+
+  const parsed = parseBounces(text);
+  const recorded = recordBounces(parsed);
+  return NextResponse.json({
+    parsed: parsed.length,
+    recorded: summarizeBounces(recorded),
+    history: summarizeBounces(listBounces())
+  });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { deleteOverride, listOverrides, saveOverrides } from '@/lib/override-store';
+import { formatOverridesCsv, isOverrideError, normalizeOverrideInput, parseOverridesCsv } from '@/lib/overrides';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ?format=csv downloads the rules as CSV
+export async function GET(request: Request) {
+  const rules = listOverrides();
+  if (new URL(request.url).searchParams.get('format') === 'csv') {
+    return new Response(formatOverridesCsv(rules), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="overrides.csv"'
+      }
+    });
+  }
+  return NextResponse.json({ rules });
+}
+
+// A JSON body adds one rule; a text/csv body imports a list of them
+export async function POST(request: Request) {
+  const isCsv = (request.headers.get('content-type') ?? '').startsWith('text/csv');
+
+  try {
+    const inputs = isCsv
+      ? parseOverridesCsv(await request.text())
+      : [normalizeOverrideInput((await request.json().catch(() => null)) ?? {})];
+    if (inputs.length === 0) {
+      return NextResponse.json({ error: 'The file contains no rules.' }, { status: 400 });
+    }
+    return NextResponse.json({ rules: saveOverrides(inputs) });
+  } catch (error) {
+    if (isOverrideError(error)) return NextResponse.json({ error: error.message }, { status: 400 });
+    throw error;
+  }
+}
+
+export async function DELETE(request: Request) {
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) return NextResponse.json({ error: 'A rule id is required.' }, { status: 400 });
+  if (!deleteOverride(id)) return NextResponse.json({ error: 'No such rule.' }, { status: 404 });
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { deleteSuppressionList, listSuppressionLists, saveSuppressionList } from '@/lib/suppression-store';
+import { isSuppressionError, isSuppressionSource, parseSuppressionCsv } from '@/lib/suppressions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({ lists: listSuppressionLists() });
+}
+
+// The CSV is the body; ?name= and ?source= describe where it came from
+export async function POST(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const name = params.get('name')?.trim() || 'Untitled list';
+  const source = params.get('source');
+
+  if (!isSuppressionSource(source)) {
+    return NextResponse.json({ error: `Unknown suppression source "${source}".` }, { status: 400 });
+  }
+
+  try {
+    const entries = parseSuppressionCsv(await request.text());
+    return NextResponse.json({ list: saveSuppressionList(name, source, entries) });
+  } catch (error) {
+    if (isSuppressionError(error)) return NextResponse.json({ error: error.message }, { status: 400 });
+    throw error;
+  }
+}
+
+export async function DELETE(request: Request) {
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) return NextResponse.json({ error: 'A list id is required.' }, { status: 400 });
+  if (!deleteSuppressionList(id)) return NextResponse.json({ error: 'No such list.' }, { status: 404 });
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { MAX_BATCH_SIZE } from '@/lib/batch-limits';
+import { validateBatch } from '@/lib/batch-validation';
+import { getScoringProfile, isScoringProfileId } from '@/lib/scoring-profiles';
+import { getServerBatchOptions } from '@/lib/server-validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Streams one JSON line per address ({ index, email, result }) as each
+// validation finishes
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const emails: string[] = Array.isArray(body?.emails)
+    ? body.emails.filter((email: unknown): email is string => typeof email === 'string').map((email: string) => email.trim())
+    : [];
+
+  if (emails.length === 0) {
+    return NextResponse.json({ error: 'A list of email addresses is required.' }, { status: 400 });
+  }
+
+  if (emails.length > MAX_BATCH_SIZE) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH_SIZE} addresses per batch.` }, { status: 413 });
+  }
+
+  if (body?.profile !== undefined && !isScoringProfileId(body.profile)) {
+    return NextResponse.json({ error: `Unknown scoring profile "${body.profile}".` }, { status: 400 });
+  }
+
+  const syntaxMode = body?.syntaxMode === 'lenient' ? 'lenient' : 'strict';
+  const refresh = body?.refresh === true;
+  const scoringProfile = body?.profile ? getScoringProfile(body.profile) : undefined;
+
+  // Stop validating when the client disconnects or stops reading
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const batch = validateBatch(emails, {
+          ...getServerBatchOptions(),
+          syntaxMode,
+          scoringProfile,
+          refresh,
+          signal: abort.signal
+        });
+        for await (const item of batch) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(item)}\n`));
+        }
+        controller.close();
+      } catch (error) {
+        if (!abort.signal.aborted) controller.error(error);
+      }
+    },
+    cancel() {
+      abort.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' }
+  });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { validateEmail } from '@/lib/email-validation';
+import { getScoringProfile, isScoringProfileId } from '@/lib/scoring-profiles';
+import { getServerValidationOptions } from '@/lib/server-validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const email = typeof body?.email === 'string' ? body.email.trim() : '';
+
+  if (!email) {
+    return NextResponse.json({ error: 'An email address is required.' }, { status: 400 });
+  }
+
+  if (body?.profile !== undefined && !isScoringProfileId(body.profile)) {
+    return NextResponse.json({ error: `Unknown scoring profile "${body.profile}".` }, { status: 400 });
+  }
+
+  const syntaxMode = body?.syntaxMode === 'lenient' ? 'lenient' : 'strict';
+  const refresh = body?.refresh === true;
+  const scoringProfile = body?.profile ? getScoringProfile(body.profile) : undefined;
+
+  // Stop probing once the client goes away, e.g. when a bulk run is cancelled
+  try {
+    const result = await validateEmail(email, {
+      ...getServerValidationOptions(),
+      syntaxMode,
+      scoringProfile,
+      refresh,
+      signal: request.signal
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (request.signal.aborted) return new NextResponse(null, { status: 499 });
+    throw error;
+  }
+}
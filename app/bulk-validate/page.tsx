@@ -1,28 +1,33 @@
 "use client";
 export const dynamic = 'force-dynamic';
-import { useState, useCallback } from 'react';
-import { Upload, Download, FileText, CheckCircle, AlertTriangle, X, Search, ArrowUpDown } from 'lucide-react';
+import { useState, useCallback, useRef } from 'react';
+import { Upload, Download, FileText, CheckCircle, AlertTriangle, HelpCircle, X, Search, ArrowUpDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Progress } from '@/components/ui/progress';
+import { BounceUpload } from '@/components/validation/BounceUpload';
+import { ScoringProfileSelect } from '@/components/validation/ScoringProfileSelect';
+import { SUPPRESSION_SOURCE_LABELS, SuppressionLists } from '@/components/validation/SuppressionLists';
 import { useToast } from '@/hooks/use-toast';
-import { validateEmail } from '@/lib/email-validation';
-
-interface ValidationResult {
-  email: string;
-  syntax: boolean;
-  domain: boolean;
-  mx: boolean;
-  disposable: boolean;
-  roleBased: boolean;
-  catchAll: boolean;
-  smtp: boolean;
-  score: number;
-  status: 'valid' | 'risky' | 'invalid';
-}
+import { formatAddress } from '@/lib/address-parser';
+import { CHECKS } from '@/lib/checks';
+import { formatCsv } from '@/lib/csv';
+import { normalizeEmail } from '@/lib/normalize-email';
+import { formatBreakdown } from '@/lib/score-breakdown';
+import { ScoringProfileId } from '@/lib/scoring-profiles';
+import { CheckResult, EmailStatus, EmailValidationResult, unverifiedResult } from '@/lib/validation-result';
+import { streamBatchValidation } from '@/lib/validation-client';
+
+type ValidationResult = EmailValidationResult;
+
+// Checks wide enough to matter at a glance; the CSV export has all of them
+const tableChecks = CHECKS.filter(definition => definition.column);
+
+const statusLabel = (status: EmailStatus) => status.replace(/_/g, ' ');
 
 interface UploadedFile {
   name: string;
@@ -39,6 +44,11 @@ export default function BulkValidatePage() {
   const [sortField, setSortField] = useState<keyof ValidationResult>('email');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [isDragOver, setIsDragOver] = useState(false);
+  const [profile, setProfile] = useState<ScoringProfileId>('balanced');
+  const [includeDomainHealth, setIncludeDomainHealth] = useState(false);
+  const [includeSuppressed, setIncludeSuppressed] = useState(false);
+  const [refresh, setRefresh] = useState(false);
+  const abortController = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -106,13 +116,22 @@ export default function BulkValidatePage() {
         return;
       }
 
-      const emails = lines.slice(1)
+      const rows = lines.slice(1)
         .map(line => {
           const columns = line.split(',');
           return columns[emailColumnIndex]?.trim().replace(/"/g, '');
         })
-        .filter(email => email && email.includes('@'))
-        .filter((email, index, self) => self.indexOf(email) === index); // Remove duplicates
+        .filter(email => email && email.includes('@'));
+
+      // Remove duplicates, treating different spellings of one mailbox
+      // (case, +tags, Gmail dots) as the same address
+      const seen = new Set<string>();
+      const emails = rows.filter(email => {
+        const key = normalizeEmail(email) ?? email;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
 
       if (emails.length === 0) {
         toast({
@@ -153,87 +172,131 @@ export default function BulkValidatePage() {
     setValidationProgress(0);
     setResults([]);
 
-    const validationResults: ValidationResult[] = [];
+    const { emails } = uploadedFile;
+    const controller = new AbortController();
+    abortController.current = controller;
+
+    // Results arrive as each address finishes; they are shown in upload order
+    const byIndex: Array<ValidationResult | undefined> = [];
+    let completed = 0;
+    let lastRender = 0;
+    const gathered = () => byIndex.filter((result): result is ValidationResult => !!result);
+    const render = () => {
+      lastRender = Date.now();
+      setValidationProgress(Math.round((completed / emails.length) * 100));
+      setResults(gathered());
+    };
 
     try {
-      for (let i = 0; i < uploadedFile.emails.length; i++) {
-        const email = uploadedFile.emails[i];
-        
-        // Add small delay to show progress
-        await new Promise(resolve => setTimeout(resolve, 50));
-
-        try {
-          const result = await validateEmail(email);
-          validationResults.push(result);
-        } catch (error) {
-          // If validation fails for individual email, add it with failed status
-          validationResults.push({
-            email,
-            syntax: false,
-            domain: false,
-            mx: false,
-            disposable: false,
-            roleBased: false,
-            catchAll: false,
-            smtp: false,
-            score: 0,
-            status: 'invalid'
-          });
-        }
-
-        setValidationProgress(Math.round(((i + 1) / uploadedFile.emails.length) * 100));
-        setResults([...validationResults]);
+      for await (const item of streamBatchValidation(emails, profile, controller.signal, refresh)) {
+        byIndex[item.index] = item.result;
+        completed++;
+        // Re-rendering a large table on every result would stall the page
+        if (Date.now() - lastRender > 250) render();
       }
 
+      // Addresses the server never reported on are listed as unverified
+      emails.forEach((email, index) => {
+        if (!byIndex[index]) byIndex[index] = unverifiedResult(email, profile);
+      });
+      render();
+      const validationResults = gathered();
+
       const validCount = validationResults.filter(r => r.status === 'valid').length;
       const riskyCount = validationResults.filter(r => r.status === 'risky').length;
       const invalidCount = validationResults.filter(r => r.status === 'invalid').length;
+      const unknownCount = validationResults.filter(r => r.status === 'unknown').length;
+      const doNotContactCount = validationResults.filter(r => r.status === 'do_not_contact').length;
+      const suppressedCount = validationResults.filter(r => r.status === 'suppressed').length;
 
       toast({
         title: "Validation Complete!",
-        description: `${validCount} valid, ${riskyCount} risky, ${invalidCount} invalid emails found.`,
+        description: `${validCount} valid, ${riskyCount} risky, ${invalidCount} invalid, ${unknownCount} unknown, ${doNotContactCount} do-not-contact, ${suppressedCount} suppressed emails found.`,
       });
 
     } catch (error) {
+      // Whatever finished before the run stopped is kept
+      render();
+      if (controller.signal.aborted) {
+        toast({
+          title: "Validation Cancelled",
+          description: `Kept results for ${completed} of ${emails.length} emails.`,
+        });
+      } else {
+        toast({
+          title: "Validation Error",
+          description: "An error occurred during bulk validation. Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      abortController.current = null;
+      setIsValidating(false);
+    }
+  };
+
+  const cancelValidation = () => {
+    abortController.current?.abort();
+  };
+
+  const downloadResults = (rows: ValidationResult[], fileName: string) => {
+    if (rows.length === 0) {
       toast({
-        title: "Validation Error",
-        description: "An error occurred during bulk validation. Please try again.",
+        title: "Nothing to Download",
+        description: "No results match this export.",
         variant: "destructive",
       });
+      return;
     }
 
-    setIsValidating(false);
-  };
-
-  const downloadResults = () => {
-    if (results.length === 0) return;
+    const checkKeys = CHECKS.map(definition => definition.id);
+    const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
 
     const headers = [
-      'Email', 'Syntax', 'Domain', 'MX', 'Disposable', 'Role-based', 
-      'Catch-All', 'SMTP', 'Score', 'Status'
+      'Email', 'Canonical Email', ...CHECKS.map(definition => definition.label),
+      'MX Outcome', 'Provider', 'Blocklist Matches', 'SMTP Code', 'Reason Codes', 'Reasons',
+      'Disposable List', 'Suggestion', 'Override', 'Override Note', 'Suppression List', 'Suppression Source',
+      'Score', 'Status', 'Profile', 'Validated At', 'Cached',
+      ...(includeDomainHealth ? ['SPF', 'DMARC', 'MTA-STS', 'TLS-RPT'] : [])
     ];
 
-    const csvContent = [
-      headers.join(','),
-      ...results.map(result => [
-        `"${result.email}"`,
-        result.syntax ? 'Pass' : 'Fail',
-        result.domain ? 'Pass' : 'Fail',
-        result.mx ? 'Pass' : 'Fail',
-        result.disposable ? 'Yes' : 'No',
-        result.roleBased ? 'Yes' : 'No',
-        result.catchAll ? 'Yes' : 'No',
-        result.smtp ? 'Pass' : 'Fail',
+    const csvContent = formatCsv([
+      headers,
+      ...rows.map(result => [
+        result.email,
+        result.canonicalEmail,
+        ...checkKeys.map(key => capitalize(result[key].status)),
+        result.mxOutcome,
+        result.provider?.name,
+        result.dnsblReport?.listings.map(listing => `${listing.target}@${listing.zone}`).join(';'),
+        result.smtpProbe?.code,
+        checkKeys
+          .map(key => result[key].reason)
+          .filter(reason => reason !== 'ok')
+          .join(';'),
+        formatBreakdown(result.breakdown),
+        result.disposableMatch ? `${result.disposableMatch.listSource}@${result.disposableMatch.listVersion}` : null,
+        result.suggestion,
+        result.override ? `${result.override.kind}:${result.override.pattern}` : null,
+        result.override?.note,
+        result.suppression?.listName,
+        result.suppression?.source,
         result.score,
-        result.status.charAt(0).toUpperCase() + result.status.slice(1)
-      ].join(','))
-    ].join('\n');
+        capitalize(statusLabel(result.status)),
+        result.profile,
+        result.validatedAt,
+        result.cached ? 'Yes' : 'No',
+        ...(includeDomainHealth
+          ? (['spf', 'dmarc', 'mtaSts', 'tlsRpt'] as const).map(key => result.domainHealthReport?.[key].grade)
+          : [])
+      ])
+    ]);
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `validation-results-${new Date().toISOString().split('T')[0]}.csv`;
+    a.download = `${fileName}-${new Date().toISOString().split('T')[0]}.csv`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -245,6 +308,17 @@ export default function BulkValidatePage() {
     });
   };
 
+  // The cleaned list to send to: valid addresses, minus anyone suppressed
+  // unless asked otherwise
+  const downloadValidResults = () => {
+    downloadResults(
+      results.filter(result =>
+        result.status === 'valid' || (includeSuppressed && result.suppression?.verdict === 'valid')
+      ),
+      'valid-emails'
+    );
+  };
+
   const handleSort = (field: keyof ValidationResult) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -281,29 +355,44 @@ export default function BulkValidatePage() {
       return 0;
     });
 
+  // Share of results per mailbox provider, largest first
+  const providerBreakdown = (() => {
+    const counts: Record<string, { name: string; gateway: boolean; count: number }> = {};
+    results.forEach(result => {
+      const key = result.provider?.id ?? 'unknown';
+      if (!counts[key]) {
+        counts[key] = {
+          name: result.provider?.name ?? 'Other / unknown',
+          gateway: result.provider?.category === 'gateway',
+          count: 0
+        };
+      }
+      counts[key].count++;
+    });
+    return Object.keys(counts)
+      .map(key => counts[key])
+      .sort((a, b) => b.count - a.count);
+  })();
+
   const getStatusBadge = (status: string) => {
     const colors = {
       valid: 'bg-emerald-500 hover:bg-emerald-600',
       risky: 'bg-yellow-500 hover:bg-yellow-600',
-      invalid: 'bg-red-500 hover:bg-red-600'
+      invalid: 'bg-red-500 hover:bg-red-600',
+      unknown: 'bg-slate-500 hover:bg-slate-600',
+      do_not_contact: 'bg-purple-600 hover:bg-purple-700',
+      suppressed: 'bg-orange-500 hover:bg-orange-600'
     };
     return colors[status as keyof typeof colors] || 'bg-gray-500';
   };
 
-  const getCheckIcon = (passed: boolean) => {
-    return passed ? (
-      <CheckCircle className="h-4 w-4 text-emerald-500" />
-    ) : (
-      <X className="h-4 w-4 text-red-500" />
-    );
-  };
-
-  const getWarningIcon = (isWarning: boolean) => {
-    return isWarning ? (
-      <AlertTriangle className="h-4 w-4 text-yellow-500" />
-    ) : (
-      <CheckCircle className="h-4 w-4 text-emerald-500" />
-    );
+  const getCheckIcon = (check: CheckResult) => {
+    switch (check.status) {
+      case 'pass': return <CheckCircle className="h-4 w-4 text-emerald-500" />;
+      case 'warning': return <AlertTriangle className="h-4 w-4 text-yellow-500" />;
+      case 'fail': return <X className="h-4 w-4 text-red-500" />;
+      default: return <HelpCircle className="h-4 w-4 text-slate-400" />;
+    }
   };
 
   return (
@@ -315,7 +404,7 @@ export default function BulkValidatePage() {
             Bulk Email Validation
           </h1>
           <p className="text-xl text-gray-600 dark:text-gray-300">
-            Upload a CSV file and validate multiple email addresses with our 8-layer validation engine
+            Upload a CSV file and validate multiple email addresses with our {CHECKS.length}-layer validation engine
           </p>
         </div>
 
@@ -366,13 +455,39 @@ export default function BulkValidatePage() {
                     </p>
                   </div>
                 </div>
-                <Button
-                  onClick={validateEmails}
+                <div className="flex items-center gap-2">
+                  {isValidating && (
+                    <Button variant="outline" onClick={cancelValidation}>
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                  <Button
+                    onClick={validateEmails}
+                    disabled={isValidating}
+                    className="bg-gradient-to-r from-blue-500 to-emerald-500 hover:from-blue-600 hover:to-emerald-600"
+                  >
+                    {isValidating ? 'Validating...' : 'Start Validation'}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {uploadedFile && (
+              <ScoringProfileSelect value={profile} onChange={setProfile} disabled={isValidating} />
+            )}
+
+            {uploadedFile && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="refresh-history"
+                  checked={refresh}
+                  onCheckedChange={(checked) => setRefresh(checked === true)}
                   disabled={isValidating}
-                  className="bg-gradient-to-r from-blue-500 to-emerald-500 hover:from-blue-600 hover:to-emerald-600"
-                >
-                  {isValidating ? 'Validating...' : 'Start Validation'}
-                </Button>
+                />
+                <Label htmlFor="refresh-history" className="text-sm">
+                  Re-verify addresses with a recent result instead of reusing it
+                </Label>
               </div>
             )}
 
@@ -391,6 +506,10 @@ export default function BulkValidatePage() {
           </CardContent>
         </Card>
 
+        <SuppressionLists disabled={isValidating} />
+
+        <BounceUpload disabled={isValidating} />
+
         {/* Results */}
         {results.length > 0 && (
           <Card>
@@ -415,8 +534,36 @@ export default function BulkValidatePage() {
                       className="pl-10 w-full sm:w-64"
                     />
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="include-domain-health"
+                      checked={includeDomainHealth}
+                      onCheckedChange={(checked) => setIncludeDomainHealth(checked === true)}
+                    />
+                    <Label htmlFor="include-domain-health" className="text-sm whitespace-nowrap">
+                      Domain health columns
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="include-suppressed"
+                      checked={includeSuppressed}
+                      onCheckedChange={(checked) => setIncludeSuppressed(checked === true)}
+                    />
+                    <Label htmlFor="include-suppressed" className="text-sm whitespace-nowrap">
+                      Suppressed in valid export
+                    </Label>
+                  </div>
                   <Button
-                    onClick={downloadResults}
+                    onClick={downloadValidResults}
+                    variant="outline"
+                    className="flex items-center"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Valid
+                  </Button>
+                  <Button
+                    onClick={() => downloadResults(results, 'validation-results')}
                     variant="outline"
                     className="flex items-center"
                   >
@@ -427,6 +574,21 @@ export default function BulkValidatePage() {
               </div>
             </CardHeader>
             <CardContent>
+              <div className="mb-6">
+                <h4 className="text-sm font-medium mb-2">Mailbox Providers</h4>
+                <div className="flex flex-wrap gap-2">
+                  {providerBreakdown.map(provider => (
+                    <Badge
+                      key={provider.name}
+                      variant="outline"
+                      className={provider.gateway ? 'border-yellow-500 text-yellow-700 dark:text-yellow-400' : ''}
+                      title={provider.gateway ? 'Security gateway - may accept every address' : undefined}
+                    >
+                      {provider.name}: {Math.round((provider.count / results.length) * 100)}% ({provider.count})
+                    </Badge>
+                  ))}
+                </div>
+              </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-sm">
                   <thead>
@@ -440,13 +602,9 @@ export default function BulkValidatePage() {
                           <ArrowUpDown className="h-3 w-3 ml-1" />
                         </button>
                       </th>
-                      <th className="text-center p-2 font-medium">Syntax</th>
-                      <th className="text-center p-2 font-medium">Domain</th>
-                      <th className="text-center p-2 font-medium">MX</th>
-                      <th className="text-center p-2 font-medium">Disposable</th>
-                      <th className="text-center p-2 font-medium">Role-based</th>
-                      <th className="text-center p-2 font-medium">Catch-All</th>
-                      <th className="text-center p-2 font-medium">SMTP</th>
+                      {tableChecks.map(definition => (
+                        <th key={definition.id} className="text-center p-2 font-medium">{definition.label}</th>
+                      ))}
                       <th className="text-center p-2 font-medium">
                         <button
                           onClick={() => handleSort('score')}
@@ -471,35 +629,44 @@ export default function BulkValidatePage() {
                     {filteredAndSortedResults.map((result, index) => (
                       <tr key={index} className="border-b hover:bg-muted/50">
                         <td className="p-2 font-mono text-xs break-all max-w-48">
-                          {result.email}
-                        </td>
-                        <td className="p-2 text-center">
-                          {getCheckIcon(result.syntax)}
-                        </td>
-                        <td className="p-2 text-center">
-                          {getCheckIcon(result.domain)}
-                        </td>
-                        <td className="p-2 text-center">
-                          {getCheckIcon(result.mx)}
-                        </td>
-                        <td className="p-2 text-center">
-                          {getWarningIcon(result.disposable)}
-                        </td>
-                        <td className="p-2 text-center">
-                          {getWarningIcon(result.roleBased)}
-                        </td>
-                        <td className="p-2 text-center">
-                          {getWarningIcon(result.catchAll)}
-                        </td>
-                        <td className="p-2 text-center">
-                          {getCheckIcon(result.smtp)}
+                          {result.address ? formatAddress(result.address, 'unicode') : result.email}
+                          {result.address && result.canonicalEmail && result.canonicalEmail !== formatAddress(result.address, 'ascii') && (
+                            <div className="text-muted-foreground">
+                              Canonical: {result.canonicalEmail}
+                            </div>
+                          )}
+                          {result.suggestion && (
+                            <div className="text-yellow-600 dark:text-yellow-400">
+                              Did you mean {result.suggestion}?
+                            </div>
+                          )}
+                          {result.cached && result.validatedAt && (
+                            <div className="text-muted-foreground">
+                              Cached from {result.validatedAt.split('T')[0]}
+                            </div>
+                          )}
+                          {result.suppression && (
+                            <div className="text-orange-600 dark:text-orange-400">
+                              Suppressed: {result.suppression.listName} ({SUPPRESSION_SOURCE_LABELS[result.suppression.source]})
+                            </div>
+                          )}
+                          {result.override && (
+                            <div className="text-purple-600 dark:text-purple-400">
+                              Override: {result.override.note || `${result.override.kind} ${result.override.pattern}`}
+                            </div>
+                          )}
                         </td>
+                        {tableChecks.map(definition => (
+                          <td key={definition.id} className="p-2 text-center" title={result[definition.id].reason}>
+                            {getCheckIcon(result[definition.id])}
+                          </td>
+                        ))}
                         <td className="p-2 text-center font-semibold">
                           {result.score}%
                         </td>
                         <td className="p-2 text-center">
                           <Badge className={`${getStatusBadge(result.status)} text-white capitalize`}>
-                            {result.status}
+                            {statusLabel(result.status)}
                           </Badge>
                         </td>
                       </tr>
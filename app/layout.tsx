@@ -5,12 +5,13 @@ import { ThemeProvider } from '@/components/theme-provider';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
 import { Toaster } from '@/components/ui/toaster';
+import { CHECKS } from '@/lib/checks';
 
 const inter = Inter({ subsets: ['latin'] });
 
 export const metadata: Metadata = {
   title: 'TrueReach - Smart Email Discovery & Validation',
-  description: 'Generate smart email combinations and validate with our 8-layer validation engine. Find the right contacts for your business.',
+  description: `Generate smart email combinations and validate with our ${CHECKS.length}-layer validation engine. Find the right contacts for your business.`,
   keywords: 'email validation, email finder, email generator, contact discovery, email verification',
 };
 
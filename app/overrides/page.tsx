@@ -0,0 +1,295 @@
+"use client";
+export const dynamic = 'force-dynamic';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Download, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  OVERRIDE_ACTIONS,
+  OVERRIDE_KINDS,
+  OverrideAction,
+  OverrideKind,
+  OverrideRule
+} from '@/lib/overrides';
+import {
+  addOverride,
+  fetchOverrides,
+  importOverridesCsv,
+  OVERRIDES_CSV_URL,
+  removeOverride
+} from '@/lib/overrides-client';
+
+const KIND_LABELS: Record<OverrideKind, string> = {
+  address: 'Address',
+  domain: 'Domain',
+  local_part: 'Local part'
+};
+
+const KIND_PLACEHOLDERS: Record<OverrideKind, string> = {
+  address: 'ceo@example.com',
+  domain: 'example.com or *.example.com',
+  local_part: 'noreply* or *-bounces'
+};
+
+const ACTION_LABELS: Record<OverrideAction, string> = {
+  valid: 'Valid',
+  invalid: 'Invalid',
+  do_not_contact: 'Do not contact'
+};
+
+const ACTION_COLORS: Record<OverrideAction, string> = {
+  valid: 'bg-emerald-500 hover:bg-emerald-600',
+  invalid: 'bg-red-500 hover:bg-red-600',
+  do_not_contact: 'bg-purple-600 hover:bg-purple-700'
+};
+
+export default function OverridesPage() {
+  const [rules, setRules] = useState<OverrideRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [kind, setKind] = useState<OverrideKind>('address');
+  const [pattern, setPattern] = useState('');
+  const [action, setAction] = useState<OverrideAction>('do_not_contact');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again.',
+      variant: "destructive",
+    });
+  };
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await fetchOverrides());
+    } catch (error) {
+      toast({
+        title: "Could Not Load Overrides",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const saveRule = async () => {
+    if (!pattern.trim()) {
+      toast({
+        title: "Missing Pattern",
+        description: "Please enter the address, domain or pattern the rule applies to.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addOverride({ kind, pattern, action, note });
+      setPattern('');
+      setNote('');
+      await loadRules();
+      toast({
+        title: "Override Saved",
+        description: "Matching addresses are settled by this rule from now on.",
+      });
+    } catch (error) {
+      showError("Could Not Save Override", error);
+    }
+    setIsSaving(false);
+  };
+
+  const deleteRule = async (rule: OverrideRule) => {
+    try {
+      await removeOverride(rule.id);
+      setRules(current => current.filter(candidate => candidate.id !== rule.id));
+    } catch (error) {
+      showError("Could Not Delete Override", error);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await importOverridesCsv(await file.text());
+      await loadRules();
+      toast({
+        title: "Overrides Imported",
+        description: `Imported ${imported.length} rules from ${file.name}.`,
+      });
+    } catch (error) {
+      showError("Import Failed", error);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 dark:text-white mb-4">
+            Team Overrides
+          </h1>
+          <p className="text-xl text-gray-600 dark:text-gray-300">
+            Settle addresses your team already knows about, before any check runs
+          </p>
+        </div>
+
+        {/* New rule */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Add Override</CardTitle>
+            <CardDescription>
+              Address rules win over local-part patterns, which win over domain rules. A domain rule covers its subdomains too.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="override-kind">Applies To</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as OverrideKind)}>
+                  <SelectTrigger id="override-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OVERRIDE_KINDS.map(value => (
+                      <SelectItem key={value} value={value}>{KIND_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="override-pattern">Pattern</Label>
+                <Input
+                  id="override-pattern"
+                  placeholder={KIND_PLACEHOLDERS[kind]}
+                  value={pattern}
+                  onChange={(e) => setPattern(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="override-action">Mark As</Label>
+                <Select value={action} onValueChange={(value) => setAction(value as OverrideAction)}>
+                  <SelectTrigger id="override-action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OVERRIDE_ACTIONS.map(value => (
+                      <SelectItem key={value} value={value}>{ACTION_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-note">Note</Label>
+              <Input
+                id="override-note"
+                placeholder="Why the team decided this"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={saveRule}
+              disabled={isSaving}
+              className="bg-gradient-to-r from-blue-500 to-emerald-500 hover:from-blue-600 hover:to-emerald-600"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Add Override'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Rules */}
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <CardTitle>Rules ({rules.length})</CardTitle>
+                <CardDescription>
+                  CSV columns: type, pattern, action, note. Importing a rule for an existing pattern replaces it.
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" className="relative">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import CSV
+                  <input
+                    type="file"
+                    accept=".csv"
+                    onChange={handleImport}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                  />
+                </Button>
+                <Button variant="outline" asChild>
+                  <a href={OVERRIDES_CSV_URL} download>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </a>
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-center text-muted-foreground py-8">Loading overrides...</p>
+            ) : rules.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No overrides yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2 font-medium">Applies To</th>
+                      <th className="text-left p-2 font-medium">Pattern</th>
+                      <th className="text-center p-2 font-medium">Mark As</th>
+                      <th className="text-left p-2 font-medium">Note</th>
+                      <th className="text-left p-2 font-medium">Added</th>
+                      <th className="p-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rules.map(rule => (
+                      <tr key={rule.id} className="border-b hover:bg-muted/50">
+                        <td className="p-2">{KIND_LABELS[rule.kind]}</td>
+                        <td className="p-2 font-mono text-xs break-all">{rule.pattern}</td>
+                        <td className="p-2 text-center">
+                          <Badge className={`${ACTION_COLORS[rule.action]} text-white`}>
+                            {ACTION_LABELS[rule.action]}
+                          </Badge>
+                        </td>
+                        <td className="p-2 text-muted-foreground">{rule.note}</td>
+                        <td className="p-2 whitespace-nowrap">{rule.createdAt.split('T')[0]}</td>
+                        <td className="p-2 text-right">
+                          <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)}>
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Delete override</span>
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
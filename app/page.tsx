@@ -2,6 +2,7 @@ import Link from 'next/link';
 import { ArrowRight, CheckCircle, Mail, Shield, Zap, Target, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CHECKS } from '@/lib/checks';
 
 export default function Home() {
   return (
@@ -24,7 +25,7 @@ export default function Home() {
             </h1>
             
             <p className="text-xl text-gray-600 dark:text-gray-300 mb-12 leading-relaxed">
-              Generate smart email combinations and validate with our advanced 8-layer validation engine. 
+              Generate smart email combinations and validate with our advanced {CHECKS.length}-layer validation engine. 
               Stop bounced emails and reach your prospects with confidence.
             </p>
             
@@ -91,7 +92,7 @@ export default function Home() {
                 <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-gradient-to-r from-emerald-500 to-emerald-600">
                   <Shield className="h-8 w-8 text-white" />
                 </div>
-                <CardTitle className="text-xl">8-Layer Validation</CardTitle>
+                <CardTitle className="text-xl">{CHECKS.length}-Layer Validation</CardTitle>
                 <CardDescription>
                   Comprehensive email validation with detailed confidence scoring
                 </CardDescription>
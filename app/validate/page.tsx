@@ -3,44 +3,65 @@ export const dynamic = 'force-dynamic';
 
 import { useState, useEffect,Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { Check, X, AlertTriangle, Mail, Shield, Globe, Zap } from 'lucide-react';
+import { Check, X, AlertTriangle, HelpCircle, Mail, Shield, Globe, Zap, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { ScoringProfileSelect } from '@/components/validation/ScoringProfileSelect';
 import { useToast } from '@/hooks/use-toast';
-import { validateEmail } from '@/lib/email-validation';
+import { formatAddress } from '@/lib/address-parser';
+import { CheckIconKey, CHECKS } from '@/lib/checks';
+import { getScoringProfile, ScoringProfileId } from '@/lib/scoring-profiles';
+import type { OverrideRule } from '@/lib/overrides';
+import type { SuppressionMatch } from '@/lib/suppressions';
+import type {
+  CheckReason,
+  CheckStatus,
+  EmailStatus,
+  ScoreBreakdownItem
+} from '@/lib/validation-result';
+import { requestValidation } from '@/lib/validation-client';
 
 interface ValidationLayer {
   name: string;
   description: string;
-  status: 'pending' | 'pass' | 'fail' | 'warning';
+  status: 'pending' | CheckStatus;
+  reason?: CheckReason;
   icon: React.ReactNode;
 }
 
 interface ValidationResult {
   email: string;
+  canonicalEmail: string | null;
   score: number;
-  status: 'valid' | 'risky' | 'invalid';
+  status: EmailStatus;
   layers: ValidationLayer[];
-  details: {
-    syntax: boolean;
-    domain: boolean;
-    mx: boolean;
-    disposable: boolean;
-    roleBased: boolean;
-    catchAll: boolean;
-    smtp: boolean;
-  };
+  suggestion: string | null;
+  override: OverrideRule | null;
+  suppression: SuppressionMatch | null;
+  profile: ScoringProfileId;
+  breakdown: ScoreBreakdownItem[];
+  validatedAt: string | null;
+  cached: boolean;
 }
 
+const CHECK_ICONS: Record<CheckIconKey, React.ReactNode> = {
+  mail: <Mail className="h-4 w-4" />,
+  globe: <Globe className="h-4 w-4" />,
+  shield: <Shield className="h-4 w-4" />,
+  alert: <AlertTriangle className="h-4 w-4" />,
+  zap: <Zap className="h-4 w-4" />
+};
+
  function ValidatePage() {
   const searchParams = useSearchParams();
   const [email, setEmail] = useState('');
   const [isValidating, setIsValidating] = useState(false);
   const [result, setResult] = useState<ValidationResult | null>(null);
+  const [profile, setProfile] = useState<ScoringProfileId>('balanced');
   const { toast } = useToast();
 
   useEffect(() => {
@@ -50,8 +71,8 @@ interface ValidationResult {
     }
   }, [searchParams]);
 
-  const validateEmailAddress = async () => {
-    if (!email) {
+  const validateEmailAddress = async (address: string = email, refresh = false) => {
+    if (!address) {
       toast({
         title: "Missing Email",
         description: "Please enter an email address to validate.",
@@ -63,50 +84,15 @@ interface ValidationResult {
     setIsValidating(true);
     setResult(null);
 
-    // Initialize validation layers
+    // One layer per registered check, then the score, all filled in from
+    // the server's response
     const layers: ValidationLayer[] = [
-      {
-        name: 'Syntax Check',
-        description: 'RFC 5322 compliance validation',
-        status: 'pending',
-        icon: <Mail className="h-4 w-4" />
-      },
-      {
-        name: 'Domain Validation',
-        description: 'DNS resolution and domain existence',
-        status: 'pending',
-        icon: <Globe className="h-4 w-4" />
-      },
-      {
-        name: 'MX Records',
-        description: 'Mail exchange server configuration',
-        status: 'pending',
-        icon: <Shield className="h-4 w-4" />
-      },
-      {
-        name: 'Disposable Check',
-        description: 'Temporary/disposable email detection',
-        status: 'pending',
-        icon: <AlertTriangle className="h-4 w-4" />
-      },
-      {
-        name: 'Role-Based Check',
-        description: 'Generic role account detection',
-        status: 'pending',
-        icon: <Mail className="h-4 w-4" />
-      },
-      {
-        name: 'Catch-All Detection',
-        description: 'Domain catch-all configuration',
-        status: 'pending',
-        icon: <Globe className="h-4 w-4" />
-      },
-      {
-        name: 'SMTP Verification',
-        description: 'Mailbox existence validation',
-        status: 'pending',
-        icon: <Zap className="h-4 w-4" />
-      },
+      ...CHECKS.map(definition => ({
+        name: definition.title,
+        description: definition.description,
+        status: 'pending' as const,
+        icon: CHECK_ICONS[definition.icon]
+      })),
       {
         name: 'Final Scoring',
         description: 'Confidence score calculation',
@@ -115,56 +101,35 @@ interface ValidationResult {
       }
     ];
 
-    // Simulate progressive validation with real validation logic
-    for (let i = 0; i < layers.length - 1; i++) {
-      await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 200));
-      
-      // Update the current layer as processing
-      setResult({
-        email,
-        score: Math.round(((i + 1) / layers.length) * 100),
-        status: 'valid',
-        layers: [...layers],
-        details: {
-          syntax: false,
-          domain: false,
-          mx: false,
-          disposable: false,
-          roleBased: false,
-          catchAll: false,
-          smtp: false
-        }
-      });
-    }
-
     // Perform actual validation
     try {
-      const validationResult = await validateEmail(email);
+      const validationResult = await requestValidation(address, profile, undefined, refresh);
       
       // Update layers with actual results
-      layers[0].status = validationResult.syntax ? 'pass' : 'fail';
-      layers[1].status = validationResult.domain ? 'pass' : 'fail';
-      layers[2].status = validationResult.mx ? 'pass' : 'fail';
-      layers[3].status = validationResult.disposable ? 'warning' : 'pass';
-      layers[4].status = validationResult.roleBased ? 'warning' : 'pass';
-      layers[5].status = validationResult.catchAll ? 'warning' : 'pass';
-      layers[6].status = validationResult.smtp ? 'pass' : 'fail';
-      layers[7].status = 'pass'; // Final scoring always passes if we get here
+      CHECKS.forEach((definition, index) => {
+        const check = validationResult[definition.id];
+        layers[index].status = check.status;
+        layers[index].reason = check.reason;
+        layers[index].description = definition.describe?.(validationResult) ?? definition.description;
+      });
+      layers[layers.length - 1].status = 'pass'; // Final scoring always passes if we get here
 
       setResult({
-        email: validationResult.email,
+        // Internationalized domains are shown in Unicode, whatever form was typed
+        email: validationResult.address
+          ? formatAddress(validationResult.address, 'unicode')
+          : validationResult.email,
+        canonicalEmail: validationResult.canonicalEmail,
         score: validationResult.score,
         status: validationResult.status,
         layers,
-        details: {
-          syntax: validationResult.syntax,
-          domain: validationResult.domain,
-          mx: validationResult.mx,
-          disposable: validationResult.disposable,
-          roleBased: validationResult.roleBased,
-          catchAll: validationResult.catchAll,
-          smtp: validationResult.smtp
-        }
+        suggestion: validationResult.suggestion,
+        override: validationResult.override,
+        suppression: validationResult.suppression,
+        profile: validationResult.profile,
+        breakdown: validationResult.breakdown,
+        validatedAt: validationResult.validatedAt,
+        cached: validationResult.cached
       });
 
       toast({
@@ -188,6 +153,9 @@ interface ValidationResult {
       case 'valid': return 'bg-emerald-500';
       case 'risky': return 'bg-yellow-500';
       case 'invalid': return 'bg-red-500';
+      case 'unknown': return 'bg-slate-500';
+      case 'do_not_contact': return 'bg-purple-600';
+      case 'suppressed': return 'bg-orange-500';
       default: return 'bg-gray-500';
     }
   };
@@ -197,34 +165,16 @@ interface ValidationResult {
       case 'pass': return <Check className="h-4 w-4 text-emerald-500" />;
       case 'warning': return <AlertTriangle className="h-4 w-4 text-yellow-500" />;
       case 'fail': return <X className="h-4 w-4 text-red-500" />;
+      case 'unknown': return <HelpCircle className="h-4 w-4 text-slate-400" />;
       default: return <div className="h-4 w-4 rounded-full bg-gray-300 animate-pulse" />;
     }
   };
 
-  const getStatusDescription = (result: ValidationResult) => {
-    if (result.status === 'valid' && result.score >= 80) {
-      return "This email has a high probability of being deliverable and appears to be a real, active mailbox.";
-    }
-    if (result.status === 'valid' && result.score >= 60) {
-      return "This email appears to be valid but may have some minor concerns that could affect deliverability.";
-    }
-    if (result.status === 'risky') {
-      let reasons = [];
-      if (result.details.disposable) reasons.push("disposable email provider");
-      if (result.details.roleBased) reasons.push("role-based address");
-      if (result.details.catchAll) reasons.push("catch-all domain");
-      if (!result.details.smtp) reasons.push("mailbox verification failed");
-      
-      const reasonText = reasons.length > 0 ? ` (${reasons.join(', ')})` : "";
-      return `This email may be valid but has concerning characteristics${reasonText}.`;
-    }
-    if (result.status === 'invalid') {
-      if (!result.details.syntax) return "This email has invalid syntax and cannot be delivered.";
-      if (!result.details.domain) return "The domain for this email address does not exist.";
-      if (!result.details.mx) return "The domain has no mail servers configured.";
-      return "This email is likely invalid or undeliverable.";
-    }
-    return "";
+  // "+20/20", "+7.5/15" or "-10" for checks that only cost points
+  const formatPoints = (item: ScoreBreakdownItem) => {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    if (item.maxPoints === 0) return item.penalty > 0 ? `-${round(item.penalty)}` : '0';
+    return `+${round(item.points)}/${item.maxPoints}`;
   };
 
   return (
@@ -237,7 +187,7 @@ interface ValidationResult {
             Email Validation Engine
           </h1>
           <p className="text-xl text-gray-600 dark:text-gray-300">
-            Comprehensive 8-layer email validation with detailed confidence scoring
+            Comprehensive {CHECKS.length}-layer email validation with detailed confidence scoring
           </p>
         </div>
 
@@ -261,8 +211,9 @@ interface ValidationResult {
                 onKeyPress={(e) => e.key === 'Enter' && !isValidating && validateEmailAddress()}
               />
             </div>
+            <ScoringProfileSelect value={profile} onChange={setProfile} disabled={isValidating} />
             <Button 
-              onClick={validateEmailAddress}
+              onClick={() => validateEmailAddress()}
               disabled={isValidating}
               className="w-full bg-gradient-to-r from-blue-500 to-emerald-500 hover:from-blue-600 hover:to-emerald-600"
             >
@@ -283,11 +234,16 @@ interface ValidationResult {
                     <CardDescription className="font-mono text-sm break-all">
                       {result.email}
                     </CardDescription>
+                    {result.canonicalEmail && result.canonicalEmail !== result.email && (
+                      <CardDescription className="font-mono text-xs break-all">
+                        Canonical: {result.canonicalEmail}
+                      </CardDescription>
+                    )}
                   </div>
                   <Badge 
                     className={`${getStatusColor(result.status)} text-white capitalize`}
                   >
-                    {result.status}
+                    {result.status.replace(/_/g, ' ')}
                   </Badge>
                 </div>
               </CardHeader>
@@ -295,14 +251,78 @@ interface ValidationResult {
                 <div className="space-y-4">
                   <div>
                     <div className="flex justify-between text-sm mb-2">
-                      <span>Confidence Score</span>
+                      <span>Confidence Score ({getScoringProfile(result.profile).name} profile)</span>
                       <span className="font-semibold">{result.score}%</span>
                     </div>
                     <Progress value={result.score} className="h-3" />
                   </div>
-                  <div className="text-sm text-muted-foreground">
-                    {getStatusDescription(result)}
-                  </div>
+                  {result.breakdown.length > 0 && (
+                    <div className="space-y-2">
+                      {result.breakdown.map(item => (
+                        <div key={item.check} className="flex items-start justify-between gap-4 text-sm">
+                          <div className="flex items-start gap-2">
+                            <span className="mt-0.5">{getStatusIcon(item.status)}</span>
+                            <div>
+                              <span className="font-medium">{item.label}</span>
+                              <span className="text-muted-foreground"> - {item.reason}</span>
+                            </div>
+                          </div>
+                          <span className={`whitespace-nowrap font-mono ${item.penalty > 0 ? 'text-red-500' : 'text-muted-foreground'}`}>
+                            {formatPoints(item)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {result.cached && result.validatedAt && (
+                    <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+                      <span className="flex items-center">
+                        <History className="h-4 w-4 mr-2" />
+                        Verified {new Date(result.validatedAt).toLocaleString()}; shown from history.
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => validateEmailAddress(result.email, true)}
+                        disabled={isValidating}
+                      >
+                        Re-verify
+                      </Button>
+                    </div>
+                  )}
+                  {result.suppression && (
+                    <div className="text-sm rounded-md border border-orange-300 dark:border-orange-800 p-3">
+                      On the suppression list <span className="font-medium">{result.suppression.listName}</span>
+                      {result.suppression.matchedBy !== 'address' && ` (matched by ${result.suppression.matchedBy.toUpperCase()} hash)`}.
+                      Do not send to this address.
+                    </div>
+                  )}
+                  {result.override && (
+                    <div className="text-sm rounded-md border border-purple-300 dark:border-purple-800 p-3">
+                      Settled by a team override ({result.override.kind.replace(/_/g, ' ')}{' '}
+                      <span className="font-mono">{result.override.pattern}</span>), so no checks were run.
+                      {result.override.note && (
+                        <div className="text-muted-foreground mt-1">{result.override.note}</div>
+                      )}
+                    </div>
+                  )}
+                  {result.suggestion && (
+                    <div className="text-sm">
+                      Did you mean{' '}
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEmail(result.suggestion!);
+                          validateEmailAddress(result.suggestion!);
+                        }}
+                        disabled={isValidating}
+                        className="font-mono font-medium text-blue-600 dark:text-blue-400 underline underline-offset-2 hover:text-blue-700"
+                      >
+                        {result.suggestion}
+                      </button>
+                      ?
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -312,7 +332,7 @@ interface ValidationResult {
               <CardHeader>
                 <CardTitle>Validation Layers</CardTitle>
                 <CardDescription>
-                  Detailed results from our 8-layer validation engine
+                  Detailed results from our {CHECKS.length}-layer validation engine
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -331,6 +351,11 @@ interface ValidationResult {
                           <div className="text-xs text-muted-foreground">
                             {layer.description}
                           </div>
+                          {layer.reason && layer.reason !== 'ok' && (
+                            <div className="text-xs font-mono text-muted-foreground mt-1">
+                              {layer.reason}
+                            </div>
+                          )}
                         </div>
                       </div>
                       <div className="flex-shrink-0">
@@ -15,6 +15,7 @@ export function Header() {
     { name: 'Generate', href: '/generate' },
     { name: 'Validate', href: '/validate' },
     { name: 'Bulk Validate', href: '/bulk-validate' },
+    { name: 'Overrides', href: '/overrides' },
   ];
 
   return (
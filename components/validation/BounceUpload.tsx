@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { MailWarning, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import type { BounceSummary } from '@/lib/bounces';
+import { fetchBounceSummary, uploadBounceMessages } from '@/lib/bounces-client';
+
+interface BounceUploadProps {
+  disabled?: boolean;
+}
+
+// "3 hard, 1 soft, 0 block"
+function describeCounts(summary: BounceSummary): string {
+  return `${summary.counts.hard} hard, ${summary.counts.soft} soft, ${summary.counts.block} block`;
+}
+
+export function BounceUpload({ disabled }: BounceUploadProps) {
+  const [summary, setSummary] = useState<BounceSummary | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // The summary is only informative; the upload still works without it
+    fetchBounceSummary().then(setSummary).catch(() => setSummary(null));
+  }, []);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      let parsed = 0;
+      let recorded = 0;
+      for (let i = 0; i < files.length; i++) {
+        const result = await uploadBounceMessages(await files[i].text());
+        parsed += result.parsed;
+        recorded += result.recorded.total;
+        setSummary(result.history);
+      }
+      toast({
+        title: parsed > 0 ? "Bounces Recorded" : "No Bounces Found",
+        description: parsed > 0
+          ? `Found ${parsed} bounces, ${recorded} of them new. They count against those addresses from now on.`
+          : "The files did not contain any bounce notices TrueReach can read.",
+        variant: parsed > 0 ? undefined : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    }
+    setIsUploading(false);
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <MailWarning className="h-5 w-5 text-red-500 mr-2" />
+          Bounce Messages
+        </CardTitle>
+        <CardDescription>
+          Upload bounce emails (.eml) or mbox archives from your ESP. Addresses that hard-bounced are reported invalid from then on; recent soft and block bounces make an address risky.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {summary
+            ? `${summary.total} bounces on record (${describeCounts(summary)})`
+            : 'No bounces on record yet'}
+        </p>
+        <Button variant="outline" className="relative" disabled={disabled || isUploading}>
+          <Upload className="h-4 w-4 mr-2" />
+          {isUploading ? 'Reading...' : 'Upload Bounces'}
+          <input
+            type="file"
+            accept=".eml,.mbox,.txt,message/rfc822"
+            multiple
+            onChange={handleUpload}
+            disabled={disabled || isUploading}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+          />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SCORING_PROFILES, ScoringProfileId } from '@/lib/scoring-profiles';
+
+interface ScoringProfileSelectProps {
+  value: ScoringProfileId;
+  onChange: (value: ScoringProfileId) => void;
+  disabled?: boolean;
+}
+
+export function ScoringProfileSelect({ value, onChange, disabled }: ScoringProfileSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="scoring-profile">Scoring Profile</Label>
+      <Select value={value} onValueChange={(id) => onChange(id as ScoringProfileId)} disabled={disabled}>
+        <SelectTrigger id="scoring-profile">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SCORING_PROFILES.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name} <span className="text-muted-foreground">- {profile.description}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
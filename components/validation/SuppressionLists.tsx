@@ -0,0 +1,144 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { ShieldOff, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { SuppressionListSummary, SuppressionSource } from '@/lib/suppressions';
+import { fetchSuppressionLists, removeSuppressionList, uploadSuppressionList } from '@/lib/suppressions-client';
+
+// lib/suppressions is server-only (it hashes with node's crypto), so the
+// sources are spelled out here
+export const SUPPRESSION_SOURCE_LABELS: Record<SuppressionSource, string> = {
+  unsubscribe: 'Unsubscribes',
+  hard_bounce: 'Hard bounces',
+  complaint: 'Complaints',
+  other: 'Other'
+};
+
+const SOURCES = Object.keys(SUPPRESSION_SOURCE_LABELS) as SuppressionSource[];
+
+interface SuppressionListsProps {
+  disabled?: boolean;
+}
+
+export function SuppressionLists({ disabled }: SuppressionListsProps) {
+  const [lists, setLists] = useState<SuppressionListSummary[]>([]);
+  const [source, setSource] = useState<SuppressionSource>('unsubscribe');
+  const [isUploading, setIsUploading] = useState(false);
+  const { toast } = useToast();
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again.',
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSuppressionLists()
+      .then(setLists)
+      .catch(error => showError("Could Not Load Suppression Lists", error));
+  }, [showError]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const list = await uploadSuppressionList(file.name, source, await file.text());
+      setLists(current => current.concat(list));
+      const total = list.counts.address + list.counts.sha256 + list.counts.md5;
+      toast({
+        title: "Suppression List Uploaded",
+        description: `${total} entries from ${file.name} will be suppressed.`,
+      });
+    } catch (error) {
+      showError("Upload Failed", error);
+    }
+    setIsUploading(false);
+  };
+
+  const deleteList = async (list: SuppressionListSummary) => {
+    try {
+      await removeSuppressionList(list.id);
+      setLists(current => current.filter(candidate => candidate.id !== list.id));
+    } catch (error) {
+      showError("Could Not Delete List", error);
+    }
+  };
+
+  // "1200 addresses, 300 SHA-256"
+  const describeCounts = (list: SuppressionListSummary) => [
+    list.counts.address > 0 && `${list.counts.address} addresses`,
+    list.counts.sha256 > 0 && `${list.counts.sha256} SHA-256`,
+    list.counts.md5 > 0 && `${list.counts.md5} MD5`
+  ].filter(Boolean).join(', ');
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldOff className="h-5 w-5 text-orange-500 mr-2" />
+          Suppression Lists
+        </CardTitle>
+        <CardDescription>
+          Addresses on these lists are reported as suppressed. Upload a CSV of addresses, or of SHA-256 or MD5 hashes of them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-2 sm:w-64">
+            <Label htmlFor="suppression-source">Source</Label>
+            <Select value={source} onValueChange={(value) => setSource(value as SuppressionSource)} disabled={disabled}>
+              <SelectTrigger id="suppression-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SOURCES.map(value => (
+                  <SelectItem key={value} value={value}>{SUPPRESSION_SOURCE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" className="relative" disabled={disabled || isUploading}>
+            <Upload className="h-4 w-4 mr-2" />
+            {isUploading ? 'Uploading...' : 'Upload Suppression CSV'}
+            <input
+              type="file"
+              accept=".csv"
+              onChange={handleUpload}
+              disabled={disabled || isUploading}
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            />
+          </Button>
+        </div>
+
+        {lists.length > 0 && (
+          <div className="space-y-2">
+            {lists.map(list => (
+              <div key={list.id} className="flex items-center justify-between p-3 bg-muted rounded-lg text-sm">
+                <div>
+                  <p className="font-medium">{list.name}</p>
+                  <p className="text-muted-foreground">
+                    {SUPPRESSION_SOURCE_LABELS[list.source]} • {describeCounts(list)} • uploaded {list.uploadedAt.split('T')[0]}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => deleteList(list)} disabled={disabled}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete suppression list</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
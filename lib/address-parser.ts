@@ -0,0 +1,348 @@
+// RFC 5322 addr-spec parser with the RFC 5321 length limits.
+//
+// strict:  the RFC grammar. Dot-atom or quoted-string local parts, hostname
+//          or IP-literal domains, comments (CFWS) around either part.
+// lenient: what mail servers accept in practice on top of that. Surrounding
+//          whitespace and angle brackets, dots anywhere in the local part
+//          (some Japanese carriers issue "taro..@"), a trailing root dot,
+//          underscores in domain labels and no 64-octet local-part limit.
+//
+// Both modes accept internationalized addresses (RFC 6531): UTF-8 local
+// parts, which need an SMTPUTF8-capable server, and Unicode domain labels,
+// which are checked and measured in their punycode form.
+
+import { isAscii, toAsciiDomain, toUnicodeDomain } from '@/lib/idn';
+
+export type AddressParseMode = 'strict' | 'lenient';
+
+export interface ParsedAddress {
+  localPart: string;
+  domain: string;
+  asciiDomain: string;
+  unicodeDomain: string;
+  isQuoted: boolean;
+  isIpLiteral: boolean;
+  requiresSmtpUtf8: boolean;
+}
+
+export type AddressSyntaxErrorCode =
+  | 'empty'
+  | 'missing_at'
+  | 'empty_local_part'
+  | 'empty_domain'
+  | 'invalid_character'
+  | 'leading_dot'
+  | 'trailing_dot'
+  | 'consecutive_dots'
+  | 'unterminated_quote'
+  | 'unterminated_comment'
+  | 'unterminated_ip_literal'
+  | 'invalid_ip_literal'
+  | 'invalid_label'
+  | 'label_too_long'
+  | 'local_part_too_long'
+  | 'domain_too_long'
+  | 'address_too_long';
+
+export interface AddressSyntaxError {
+  code: AddressSyntaxErrorCode;
+  message: string;
+  position: number;
+}
+
+export type AddressParseResult =
+  | { ok: true; address: ParsedAddress }
+  | { ok: false; error: AddressSyntaxError };
+
+const MAX_LOCAL_PART_OCTETS = 64;
+const MAX_DOMAIN_OCTETS = 253;
+const MAX_ADDRESS_OCTETS = 254;
+const MAX_LABEL_OCTETS = 63;
+
+const ATEXT = /^[A-Za-z0-9!#$%&'*+\/=?^_`{|}~-]$/;
+
+// Ideographic and fullwidth full stops separate labels just like "."
+const LABEL_SEPARATORS = ['.', '\u3002', '\uff0e', '\uff61'];
+
+function isLabelChar(char: string): boolean {
+  return /^[A-Za-z0-9_-]$/.test(char) || !isAscii(char);
+}
+
+const ERROR_MESSAGES: Record<AddressSyntaxErrorCode, string> = {
+  empty: 'The address is empty',
+  missing_at: 'The address has no @ separating the local part from the domain',
+  empty_local_part: 'Nothing comes before the @',
+  empty_domain: 'Nothing comes after the @',
+  invalid_character: 'Character not allowed here',
+  leading_dot: 'A dot starts the local part or domain',
+  trailing_dot: 'A dot ends the local part or domain',
+  consecutive_dots: 'Two dots in a row',
+  unterminated_quote: 'Quoted local part is missing its closing quote',
+  unterminated_comment: 'Comment is missing its closing parenthesis',
+  unterminated_ip_literal: 'IP literal is missing its closing bracket',
+  invalid_ip_literal: 'IP literal is not a valid IPv4 or IPv6 address',
+  invalid_label: 'Domain labels may only contain letters, digits and inner hyphens',
+  label_too_long: 'A domain label is longer than 63 octets',
+  local_part_too_long: 'The local part is longer than 64 octets',
+  domain_too_long: 'The domain is longer than 253 octets',
+  address_too_long: 'The address is longer than 254 octets'
+};
+
+class SyntaxFailure {
+  constructor(public code: AddressSyntaxErrorCode, public position: number) {}
+}
+
+function octets(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+export function isValidIPv4(value: string): boolean {
+  const parts = value.split('.');
+  return parts.length === 4 && parts.every(part =>
+    /^\d{1,3}$/.test(part) && Number(part) <= 255 && (part === '0' || part[0] !== '0')
+  );
+}
+
+export function isValidIPv6(value: string): boolean {
+  let groups = value;
+  let maxGroups = 8;
+
+  // An embedded IPv4 tail takes the place of the last two groups
+  const lastColon = groups.lastIndexOf(':');
+  if (lastColon !== -1 && groups.indexOf('.', lastColon) !== -1) {
+    if (!isValidIPv4(groups.slice(lastColon + 1))) return false;
+    groups = groups.slice(0, lastColon + 1) + '0';
+    maxGroups = 7;
+  }
+
+  const halves = groups.split('::');
+  if (halves.length > 2) return false;
+
+  const parse = (half: string) => (half === '' ? [] : half.split(':'));
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const all = head.concat(tail);
+
+  if (!all.every(group => /^[0-9A-Fa-f]{1,4}$/.test(group))) return false;
+  return halves.length === 2 ? all.length < maxGroups : all.length === maxGroups;
+}
+
+function createScanner(input: string, mode: AddressParseMode) {
+  let pos = 0;
+
+  const peek = () => input[pos];
+  const fail = (code: AddressSyntaxErrorCode, position = pos): never => {
+    throw new SyntaxFailure(code, position);
+  };
+
+  // Skip folding whitespace and (possibly nested) comments
+  const skipCFWS = () => {
+    while (pos < input.length) {
+      const char = peek();
+      if (char === ' ' || char === '\t' || char === '\r' || char === '\n') {
+        pos++;
+      } else if (char === '(') {
+        const start = pos;
+        let depth = 0;
+        do {
+          if (pos >= input.length) fail('unterminated_comment', start);
+          const current = input[pos];
+          if (current === '\\') pos++;
+          else if (current === '(') depth++;
+          else if (current === ')') depth--;
+          pos++;
+        } while (depth > 0);
+      } else {
+        return;
+      }
+    }
+  };
+
+  const parseQuotedLocalPart = (): string => {
+    const start = pos;
+    let content = '';
+    pos++;
+    for (;;) {
+      if (pos >= input.length) fail('unterminated_quote', start);
+      const char = input[pos];
+      if (char === '"') break;
+      if (char === '\\') {
+        const escaped = input[pos + 1];
+        if (escaped === undefined) fail('unterminated_quote', start);
+        if (escaped < ' ' && escaped !== '\t') fail('invalid_character', pos + 1);
+        content += '\\' + escaped;
+        pos += 2;
+        continue;
+      }
+      if ((char < ' ' && char !== '\t') || char === '\x7f') fail('invalid_character');
+      content += char;
+      pos++;
+    }
+    pos++;
+    return `"${content}"`;
+  };
+
+  const parseDotAtomLocalPart = (): string => {
+    const start = pos;
+    let value = '';
+    while (pos < input.length) {
+      const char = peek();
+      if (char === '.') {
+        if (mode === 'strict') {
+          if (value === '') fail('leading_dot');
+          if (value.endsWith('.')) fail('consecutive_dots');
+        }
+        value += char;
+        pos++;
+      } else if (ATEXT.test(char) || !isAscii(char)) {
+        value += char;
+        pos++;
+      } else {
+        break;
+      }
+    }
+    if (value === '') fail(peek() === '@' ? 'empty_local_part' : 'invalid_character', start);
+    if (mode === 'strict' && value.endsWith('.')) fail('trailing_dot', pos - 1);
+    return value;
+  };
+
+  const parseIpLiteral = (): string => {
+    const start = pos;
+    const end = input.indexOf(']', pos);
+    if (end === -1) fail('unterminated_ip_literal', start);
+    const literal = input.slice(pos + 1, end);
+
+    const valid = /^IPv6:/i.test(literal)
+      ? isValidIPv6(literal.slice(5))
+      : isValidIPv4(literal) || (mode === 'lenient' && isValidIPv6(literal));
+    if (!valid) fail('invalid_ip_literal', start + 1);
+
+    pos = end + 1;
+    return `[${literal}]`;
+  };
+
+  const parseHostname = (): string => {
+    const labelPattern = mode === 'strict'
+      ? /^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$/
+      : /^[A-Za-z0-9_](?:[A-Za-z0-9_-]*[A-Za-z0-9_])?$/;
+    const labels: string[] = [];
+    let label = '';
+    let labelStart = pos;
+
+    const closeLabel = () => {
+      if (label === '' && labels.length === 0) fail(peek() === '.' ? 'leading_dot' : 'invalid_character', labelStart);
+      if (label === '') fail('consecutive_dots', labelStart);
+      const asciiLabel = isAscii(label) ? label : toAsciiDomain(label);
+      if (asciiLabel === null || asciiLabel.indexOf('.') !== -1 || /^-|-$/.test(label)) fail('invalid_label', labelStart);
+      if (octets(asciiLabel!) > MAX_LABEL_OCTETS) fail('label_too_long', labelStart);
+      if (!labelPattern.test(asciiLabel!)) fail('invalid_label', labelStart);
+      labels.push(label);
+      label = '';
+    };
+
+    while (pos < input.length) {
+      const char = peek();
+      if (LABEL_SEPARATORS.indexOf(char) !== -1) {
+        closeLabel();
+        pos++;
+        labelStart = pos;
+        // A trailing root dot is tolerated in lenient mode
+        if (mode === 'lenient' && pos >= input.length) return labels.join('.');
+      } else if (isLabelChar(char)) {
+        label += char;
+        pos++;
+      } else {
+        break;
+      }
+    }
+
+    if (label === '' && labels.length > 0) fail('trailing_dot', pos - 1);
+    closeLabel();
+    return labels.join('.');
+  };
+
+  return {
+    parse(): ParsedAddress {
+      skipCFWS();
+      if (pos >= input.length) fail('empty');
+
+      const isQuoted = peek() === '"';
+      const localStart = pos;
+      const localPart = isQuoted ? parseQuotedLocalPart() : parseDotAtomLocalPart();
+      skipCFWS();
+
+      if (pos >= input.length) fail('missing_at');
+      if (peek() !== '@') fail('invalid_character');
+      pos++;
+      skipCFWS();
+
+      const domainStart = pos;
+      if (pos >= input.length) fail('empty_domain');
+      const isIpLiteral = peek() === '[';
+      const domain = isIpLiteral ? parseIpLiteral() : parseHostname();
+      skipCFWS();
+      if (pos < input.length) fail('invalid_character');
+
+      if (mode === 'strict' && octets(localPart) > MAX_LOCAL_PART_OCTETS) {
+        fail('local_part_too_long', localStart);
+      }
+      const asciiDomain = isIpLiteral ? domain : toAsciiDomain(domain);
+      if (asciiDomain === null) fail('invalid_label', domainStart);
+      if (octets(asciiDomain!) > MAX_DOMAIN_OCTETS) fail('domain_too_long', domainStart);
+      if (octets(localPart) + 1 + octets(asciiDomain!) > MAX_ADDRESS_OCTETS) fail('address_too_long', 0);
+
+      return {
+        localPart,
+        domain,
+        asciiDomain: asciiDomain!,
+        unicodeDomain: isIpLiteral ? domain : toUnicodeDomain(asciiDomain!),
+        isQuoted,
+        isIpLiteral,
+        requiresSmtpUtf8: !isAscii(localPart)
+      };
+    }
+  };
+}
+
+// Parse an address into its parts, or report the first syntax error and the
+// index in `input` where it was found.
+export function parseAddress(input: string, mode: AddressParseMode = 'strict'): AddressParseResult {
+  let source = input;
+  let offset = 0;
+
+  if (mode === 'lenient') {
+    const trimmed = source.trim();
+    offset = source.indexOf(trimmed);
+    source = trimmed;
+    if (source.startsWith('<') && source.endsWith('>')) {
+      source = source.slice(1, -1);
+      offset++;
+    }
+  }
+
+  try {
+    return { ok: true, address: createScanner(source, mode).parse() };
+  } catch (error) {
+    if (!(error instanceof SyntaxFailure)) throw error;
+    return {
+      ok: false,
+      error: {
+        code: error.code,
+        message: ERROR_MESSAGES[error.code],
+        position: error.position + offset
+      }
+    };
+  }
+}
+
+// Render a parsed address with its domain in ASCII form (for DNS and SMTP),
+// Unicode form (for people) or as originally written
+export function formatAddress(
+  address: ParsedAddress,
+  domainForm: 'ascii' | 'unicode' | 'original' = 'original'
+): string {
+  const domain = domainForm === 'ascii'
+    ? address.asciiDomain
+    : domainForm === 'unicode' ? address.unicodeDomain : address.domain;
+  return `${address.localPart}@${domain}`;
+}
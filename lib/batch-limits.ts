@@ -0,0 +1,5 @@
+// Limits shared by the batch API route and the browser client that feeds
+// it. Kept free of imports so either side can use it.
+
+// Addresses per /api/validate/batch request; longer lists are sent in parts
+export const MAX_BATCH_SIZE = 10000;
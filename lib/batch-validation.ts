@@ -0,0 +1,143 @@
+import { setMaxListeners } from 'events';
+import { createCatchAllCache } from '@/lib/catch-all';
+import { splitEmail } from '@/lib/checks/helpers';
+import { createCachingDnsResolver } from '@/lib/dns-resolver';
+import { validateEmail, ValidationOptions } from '@/lib/email-validation';
+import { toAsciiDomain } from '@/lib/idn';
+import { DEFAULT_SCORING_PROFILE } from '@/lib/scoring-profiles';
+import { EmailValidationResult, unverifiedResult } from '@/lib/validation-result';
+
+// Server-only. Validates many addresses at once without hammering any one mail server:
+// a global concurrency limit, plus a per-domain limit and a minimum gap
+// between two validations of the same domain starting. DNS answers and
+// catch-all verdicts are shared across the batch, so a list full of one
+// company's addresses looks its domain up once.
+
+export interface BatchValidationOptions extends ValidationOptions {
+  // Addresses validated at the same time (default 8)
+  concurrency?: number;
+  // Addresses at one domain validated at the same time (default 2)
+  perDomainConcurrency?: number;
+  // Minimum time between two validations of one domain starting, in ms
+  // (default 250)
+  perDomainIntervalMs?: number;
+}
+
+export interface BatchItem {
+  // Position of the address in the input
+  index: number;
+  email: string;
+  result: EmailValidationResult;
+}
+
+interface QueuedEmail {
+  index: number;
+  email: string;
+}
+
+interface DomainState {
+  queue: QueuedEmail[];
+  active: number;
+  lastStart: number;
+}
+
+// Throttling key: the domain as mail servers see it
+function domainKey(email: string): string {
+  const domain = splitEmail(email.trim()).domain;
+  return (toAsciiDomain(domain) ?? domain).toLowerCase();
+}
+
+// Yields each address's result as soon as it is ready, so in completion
+// order rather than input order; `index` ties it back to the input. Aborting
+// `options.signal` stops the batch and the iterator throws the abort reason.
+export async function* validateBatch(
+  emails: string[],
+  options: BatchValidationOptions
+): AsyncGenerator<BatchItem> {
+  const concurrency = Math.max(1, options.concurrency ?? 8);
+  const perDomainConcurrency = Math.max(1, options.perDomainConcurrency ?? 2);
+  const perDomainIntervalMs = options.perDomainIntervalMs ?? 250;
+  const profile = options.scoringProfile ?? DEFAULT_SCORING_PROFILE;
+
+  // Stops in-flight validations on abort, and when the caller stops iterating
+  const controller = new AbortController();
+  // Every running check of every address in flight listens to it
+  setMaxListeners(0, controller.signal);
+  const forwardAbort = () => controller.abort(options.signal!.reason);
+  if (options.signal?.aborted) forwardAbort();
+  options.signal?.addEventListener('abort', forwardAbort);
+
+  const shared: ValidationOptions = {
+    ...options,
+    resolver: createCachingDnsResolver(options.resolver),
+    catchAllCache: options.catchAllCache ?? createCatchAllCache(),
+    signal: controller.signal
+  };
+
+  const domains = new Map<string, DomainState>();
+  emails.forEach((email, index) => {
+    const key = domainKey(email);
+    const state = domains.get(key) ?? { queue: [], active: 0, lastStart: -Infinity };
+    state.queue.push({ index, email });
+    domains.set(key, state);
+  });
+
+  const running = new Map<number, Promise<BatchItem>>();
+  let queued = emails.length;
+
+  const start = (state: DomainState) => {
+    const { index, email } = state.queue.shift()!;
+    queued--;
+    state.active++;
+    state.lastStart = Date.now();
+    // One address failing unexpectedly must not sink the batch; it is
+    // reported unverified, as if nothing had been checked
+    running.set(index, validateEmail(email, shared)
+      .catch(() => unverifiedResult(email, profile.id))
+      .then(result => {
+        state.active--;
+        return { index, email, result };
+      }));
+  };
+
+  try {
+    while (queued > 0 || running.size > 0) {
+      controller.signal.throwIfAborted();
+
+      // Start whatever the limits allow; otherwise note when the next
+      // domain comes off its interval
+      const now = Date.now();
+      let wakeAt = Infinity;
+      domains.forEach(state => {
+        while (state.queue.length > 0 && running.size < concurrency && state.active < perDomainConcurrency) {
+          const readyAt = state.lastStart + perDomainIntervalMs;
+          if (readyAt > now) {
+            wakeAt = Math.min(wakeAt, readyAt);
+            return;
+          }
+          start(state);
+        }
+      });
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let onAbort = () => {};
+      const interrupted = new Promise<null>(resolve => {
+        onAbort = () => resolve(null);
+        controller.signal.addEventListener('abort', onAbort);
+        if (wakeAt !== Infinity) timer = setTimeout(() => resolve(null), wakeAt - now);
+      });
+      const contenders: Array<Promise<BatchItem | null>> = Array.from(running.values());
+      const finished = await Promise.race(contenders.concat(interrupted));
+      clearTimeout(timer);
+      controller.signal.removeEventListener('abort', onAbort);
+
+      if (finished && !controller.signal.aborted) {
+        running.delete(finished.index);
+        yield finished;
+      }
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', forwardAbort);
+    controller.abort();
+  }
+}
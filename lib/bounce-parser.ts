@@ -0,0 +1,275 @@
+// Server-only. Reads bounce messages (.eml files or mbox archives) and pulls
+// out who bounced, with what status code and diagnostic. Standard delivery
+// status notifications (RFC 3464) are read from their message/delivery-status
+// part; Exchange, Gmail and Postfix notices without one are read from their
+// text.
+
+// hard: the mailbox does not exist or is disabled
+// soft: a temporary problem (mailbox full, server unavailable, delayed)
+// block: the receiving side refused the sender (policy, spam, reputation)
+export type BounceClass = 'hard' | 'soft' | 'block';
+
+export type BounceFormat = 'dsn' | 'postfix' | 'exchange' | 'gmail' | 'generic';
+
+export interface ParsedBounce {
+  // Address that bounced, as the notice gives it
+  recipient: string;
+  // Enhanced status code ("5.1.1"), or the class a basic reply code implies
+  status: string | null;
+  // What the receiving server said, on one line
+  diagnostic: string;
+  classification: BounceClass;
+  format: BounceFormat;
+  // When the notice was sent, from its Date header
+  receivedAt: string | null;
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  contentType: string;
+  params: Record<string, string>;
+  body: string;
+}
+
+const ADDRESS = /[^\s<>()"',;:]+@[^\s<>()"',;:]+\.[^\s<>()"',;:]+/;
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Header fields with folded lines joined; a repeated field keeps its first value
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  });
+  return headers;
+}
+
+function splitHeaders(raw: string): { headers: Record<string, string>; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { headers: parseHeaders(raw), body: '' };
+  return { headers: parseHeaders(raw.slice(0, match.index)), body: raw.slice(match.index + match[0].length) };
+}
+
+function parseContentType(value: string | undefined): { contentType: string; params: Record<string, string> } {
+  const [type, ...rest] = (value ?? 'text/plain').split(';');
+  const params: Record<string, string> = {};
+  rest.forEach(param => {
+    const equals = param.indexOf('=');
+    if (equals === -1) return;
+    params[param.slice(0, equals).trim().toLowerCase()] = param.slice(equals + 1).trim().replace(/^"|"$/g, '');
+  });
+  return { contentType: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: string, encoding: string | undefined): string {
+  switch ((encoding ?? '').toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8');
+    case 'quoted-printable':
+      return body
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    default:
+      return body;
+  }
+}
+
+// Leaf parts of a message, depth first. A returned original message
+// (message/rfc822) is kept whole rather than opened: its recipients are not
+// the ones that bounced.
+function flattenParts(raw: string): MimePart[] {
+  const { headers, body } = splitHeaders(raw);
+  const { contentType, params } = parseContentType(headers['content-type']);
+
+  if (contentType.startsWith('multipart/') && params.boundary) {
+    const delimiter = `--${params.boundary}`;
+    const sections = body.split(delimiter).slice(1);
+    const parts: MimePart[] = [];
+    sections.forEach(section => {
+      if (section.startsWith('--')) return;
+      parts.push(...flattenParts(section.replace(/^[ \t]*\r?\n/, '')));
+    });
+    return parts;
+  }
+  return [{ headers, contentType, params, body: decodeBody(body, headers['content-transfer-encoding']) }];
+}
+
+function textOf(parts: MimePart[]): string {
+  return parts
+    .filter(part => part.contentType === 'text/plain' || part.contentType === 'text/html')
+    .map(part => part.contentType === 'text/html'
+      ? part.body.replace(/<br\s*\/?>|<\/(p|div|tr|li)>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ')
+      : part.body)
+    .join('\n')
+    .replace(/\r\n/g, '\n');
+}
+
+// "5.1.1" from the text, or "5.0.0" from a bare "550"
+export function extractStatus(text: string): string | null {
+  const enhanced = /\b([245])\.(\d{1,3})\.(\d{1,3})\b/.exec(text);
+  if (enhanced) return enhanced[0];
+  const basic = /\b([45])\d\d\b/.exec(text);
+  return basic ? `${basic[1]}.0.0` : null;
+}
+
+const BLOCK_TEXT = /block(ed|list|ing)|blacklist|spamhaus|spamcop|barracuda|\bspam\b|reputation|policy|not authorized|access denied|complaint/i;
+const SOFT_TEXT = /mailbox (is )?full|over ?quota|quota exceeded|insufficient (system )?storage|try again|temporar|delayed|deferred/i;
+
+// The enhanced status code decides when there is one (RFC 3463): x.1.x is
+// a bad address, x.7.x a security or policy refusal. Servers word their
+// diagnostics freely ("Recipient address rejected: Access denied" is a
+// 5.4.1 unknown recipient at Office 365), so the text is only read when the
+// code is missing or says nothing more than the reply class (x.0.0).
+export function classifyBounce(status: string | null, diagnostic: string, action?: string): BounceClass {
+  if (action === 'delayed') return 'soft';
+  if (status && !/^\d\.0\.0$/.test(status)) {
+    if (/^\d\.1\./.test(status) || status === '5.4.1') return 'hard';
+    if (/^\d\.7\./.test(status)) return 'block';
+    // x.2.2 is mailbox full, which clears up by itself
+    if (status.startsWith('4') || /^\d\.2\.2$/.test(status)) return 'soft';
+    return 'hard';
+  }
+  if (BLOCK_TEXT.test(diagnostic)) return 'block';
+  if (status?.startsWith('4') || SOFT_TEXT.test(diagnostic)) return 'soft';
+  return 'hard';
+}
+
+function bounce(
+  recipient: string,
+  status: string | null,
+  diagnostic: string,
+  format: BounceFormat,
+  receivedAt: string | null,
+  action?: string
+): ParsedBounce {
+  const text = collapse(diagnostic);
+  return {
+    recipient: recipient.replace(/^<|>$/g, '').trim(),
+    status,
+    diagnostic: text,
+    classification: classifyBounce(status, text, action),
+    format,
+    receivedAt
+  };
+}
+
+// RFC 3464: a per-message block, then one block of fields per recipient
+function fromDeliveryStatus(parts: MimePart[], receivedAt: string | null): ParsedBounce[] {
+  const bounces: ParsedBounce[] = [];
+  parts
+    .filter(part => part.contentType === 'message/delivery-status' || part.contentType === 'message/global-delivery-status')
+    .forEach(part => {
+      part.body.replace(/\r\n/g, '\n').split(/\n[ \t]*\n/).forEach(block => {
+        const fields = parseHeaders(block);
+        const recipient = (fields['final-recipient'] ?? fields['original-recipient'] ?? '').replace(/^[\w-]+;\s*/, '');
+        const action = (fields.action ?? '').toLowerCase();
+        // Successful and relayed deliveries are reported the same way
+        if (!recipient || ['delivered', 'relayed', 'expanded'].indexOf(action) !== -1) return;
+        const diagnostic = (fields['diagnostic-code'] ?? '').replace(/^[\w-]+;\s*/, '');
+        const status = extractStatus(fields.status ?? '') ?? extractStatus(diagnostic);
+        bounces.push(bounce(recipient, status, diagnostic || action, 'dsn', receivedAt, action));
+      });
+    });
+  return bounces;
+}
+
+// "<user@example.com>: host mx.example.com[192.0.2.1] said: 550 5.1.1 ..."
+function fromPostfix(text: string, receivedAt: string | null): ParsedBounce[] {
+  if (!/This is the mail system at host|could not be delivered to one or more recipients/i.test(text)) return [];
+  const bounces: ParsedBounce[] = [];
+  const pattern = /^<([^>\s]+@[^>\s]+)>(?: \(expanded from <[^>]+>\))?:\s*([\s\S]*?)(?=\n[ \t]*\n|\n<[^>\s]+>|(?![\s\S]))/gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    bounces.push(bounce(match[1], extractStatus(match[2]), match[2], 'postfix', receivedAt));
+  }
+  return bounces;
+}
+
+// "Delivery has failed to these recipients or groups:" followed by the
+// recipients, and "Remote Server returned '550 5.1.1 ...'" further down
+function fromExchange(text: string, receivedAt: string | null): ParsedBounce[] {
+  const header = /Delivery has failed to these recipients or groups:\s*\n([\s\S]*?)(?:\n[ \t]*\n|$)/i.exec(text);
+  if (!header) return [];
+  const returned = /Remote Server returned '([^']+)'/i.exec(text)
+    ?? /^#?\s*([45]\d\d[ -][\d.]+ [^\n]+?)(?:\s*##)?$/m.exec(text);
+  const diagnostic = returned ? returned[1] : collapse(header[1]);
+  return header[1]
+    .split('\n')
+    .map(line => ADDRESS.exec(line)?.[0])
+    .filter((recipient): recipient is string => !!recipient)
+    .map(recipient => bounce(recipient, extractStatus(diagnostic) ?? '5.0.0', diagnostic, 'exchange', receivedAt));
+}
+
+// "Delivery to the following recipient failed permanently:" or "Your
+// message wasn't delivered to ...", then what the remote server said
+function fromGmail(text: string, receivedAt: string | null): ParsedBounce[] {
+  const recipient = /Delivery to the following recipients? (?:failed permanently|has been delayed):\s*\n\s*(\S+@\S+)/i.exec(text)
+    ?? /Your message wasn't delivered to (\S+@[^\s,]+?)[.,]?\s/i.exec(text)
+    ?? /Message not delivered[\s\S]*?\b(\S+@[^\s,]+?)[.,]?\s/i.exec(text);
+  if (!recipient) return [];
+  const delayed = /has been delayed|will retry/i.test(text);
+  const response = /The response (?:from the remote server )?was:\s*\n\s*([^\n]+(?:\n[ \t]*\S[^\n]*)*)/i.exec(text)
+    ?? /Technical details of (?:permanent|temporary) failure:\s*\n([\s\S]*?)(?:\n[ \t]*\n|$)/i.exec(text);
+  const diagnostic = response ? response[1] : delayed ? 'Delivery delayed' : 'Delivery failed permanently';
+  const status = extractStatus(diagnostic) ?? (delayed ? '4.0.0' : '5.0.0');
+  return [bounce(recipient[1], status, diagnostic, 'gmail', receivedAt, delayed ? 'delayed' : undefined)];
+}
+
+// X-Failed-Recipients (Exim, Gmail) with the first SMTP reply in the text
+function fromFailedRecipientsHeader(headers: Record<string, string>, text: string, receivedAt: string | null): ParsedBounce[] {
+  const header = headers['x-failed-recipients'];
+  if (!header) return [];
+  const reply = /^.*\b[45]\d\d[ -][^\n]*$/m.exec(text);
+  const diagnostic = reply ? reply[0] : 'Delivery failed';
+  return header
+    .split(',')
+    .map(recipient => recipient.trim())
+    .filter(recipient => ADDRESS.test(recipient))
+    .map(recipient => bounce(recipient, extractStatus(diagnostic) ?? '5.0.0', diagnostic, 'generic', receivedAt));
+}
+
+function parseDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// Bounces in one message; an empty list when it is not a bounce notice
+export function parseBounceMessage(raw: string): ParsedBounce[] {
+  const { headers } = splitHeaders(raw);
+  const parts = flattenParts(raw);
+  const receivedAt = parseDate(headers.date);
+  const text = textOf(parts);
+
+  const standard = fromDeliveryStatus(parts, receivedAt);
+  if (standard.length > 0) return standard;
+  const formats = [fromPostfix, fromExchange, fromGmail];
+  for (let i = 0; i < formats.length; i++) {
+    const found = formats[i](text, receivedAt);
+    if (found.length > 0) return found;
+  }
+  return fromFailedRecipientsHeader(headers, text, receivedAt);
+}
+
+// An mbox archive holds messages separated by "From " lines; anything else
+// is taken as a single message
+export function splitMailbox(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, '\n');
+  if (!/^From \S/.test(normalized)) return [normalized];
+  return normalized
+    .split(/^From \S[^\n]*\n/m)
+    .filter(message => message.trim())
+    // mboxrd escapes body lines that start with "From "
+    .map(message => message.replace(/^>(>*From )/gm, '$1'));
+}
+
+export function parseBounces(text: string): ParsedBounce[] {
+  const bounces: ParsedBounce[] = [];
+  splitMailbox(text).forEach(message => bounces.push(...parseBounceMessage(message)));
+  return bounces;
+}
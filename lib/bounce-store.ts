@@ -0,0 +1,52 @@
+import { ParsedBounce } from '@/lib/bounce-parser';
+import { bounceAddress, BounceHistory, BounceRecord, createBounceHistory } from '@/lib/bounces';
+import { createJsonStore } from '@/lib/json-store';
+
+// Server-only: bounces read from uploaded bounce messages, kept in
+// .data/bounces.json.
+
+const store = createJsonStore<{ bounces: BounceRecord[] }>('bounces.json', () => ({ bounces: [] }));
+
+// Rebuilt after every change rather than on every validation
+let history: BounceHistory | null = null;
+
+export function listBounces(): BounceRecord[] {
+  return store.read().bounces;
+}
+
+// Uploading the same notices twice records them once. Bounces without a
+// usable address are left out.
+export function recordBounces(parsed: ParsedBounce[]): BounceRecord[] {
+  const recordedAt = new Date().toISOString();
+  const existing = listBounces();
+  const key = (record: BounceRecord) => `${record.address} ${record.bouncedAt} ${record.status}`;
+  const seen = new Set(existing.map(key));
+
+  const added: BounceRecord[] = [];
+  parsed.forEach(bounce => {
+    const address = bounceAddress(bounce.recipient);
+    if (!address) return;
+    const record: BounceRecord = {
+      address,
+      status: bounce.status,
+      diagnostic: bounce.diagnostic,
+      classification: bounce.classification,
+      format: bounce.format,
+      bouncedAt: bounce.receivedAt ?? recordedAt
+    };
+    if (seen.has(key(record))) return;
+    seen.add(key(record));
+    added.push(record);
+  });
+
+  if (added.length > 0) {
+    store.write({ bounces: existing.concat(added) });
+    history = null;
+  }
+  return added;
+}
+
+export function getBounceHistory(): BounceHistory {
+  if (!history) history = createBounceHistory(listBounces());
+  return history;
+}
@@ -0,0 +1,31 @@
+import type { BounceSummary } from '@/lib/bounces';
+
+// Browser-side access to the recorded bounces (/api/bounces)
+
+export interface BounceUploadResult {
+  // Bounces found in the file
+  parsed: number;
+  // Those not on record yet
+  recorded: BounceSummary;
+  history: BounceSummary;
+}
+
+async function readBody<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Bounce request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+export async function fetchBounceSummary(): Promise<BounceSummary> {
+  return readBody(await fetch('/api/bounces', { cache: 'no-store' }));
+}
+
+export async function uploadBounceMessages(text: string): Promise<BounceUploadResult> {
+  return readBody(await fetch('/api/bounces', {
+    method: 'POST',
+    headers: { 'Content-Type': 'message/rfc822' },
+    body: text
+  }));
+}
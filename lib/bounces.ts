@@ -0,0 +1,60 @@
+import type { BounceClass, BounceFormat } from '@/lib/bounce-parser';
+import { normalizeEmail } from '@/lib/normalize-email';
+
+// Bounces recorded against addresses, consulted by the bounce history check.
+// A hard bounce counts for good; soft and block bounces only while recent,
+// since the problem behind them tends to clear up.
+
+export const RECENT_BOUNCE_DAYS = 30;
+
+export interface BounceRecord {
+  // Canonical form, lowercase (see normalizeEmail)
+  address: string;
+  status: string | null;
+  diagnostic: string;
+  classification: BounceClass;
+  format: BounceFormat;
+  bouncedAt: string;
+}
+
+export interface BounceHistory {
+  // The bounce that weighs most on the address, or null
+  lookup(email: string, now?: number): BounceRecord | null;
+}
+
+export interface BounceSummary {
+  total: number;
+  counts: Record<BounceClass, number>;
+}
+
+export function summarizeBounces(records: BounceRecord[]): BounceSummary {
+  const counts: Record<BounceClass, number> = { hard: 0, soft: 0, block: 0 };
+  records.forEach(record => counts[record.classification]++);
+  return { total: records.length, counts };
+}
+
+export function bounceAddress(email: string): string | null {
+  return normalizeEmail(email)?.toLowerCase() ?? null;
+}
+
+const SEVERITY: BounceClass[] = ['hard', 'block', 'soft'];
+
+export function createBounceHistory(records: BounceRecord[]): BounceHistory {
+  const byAddress = new Map<string, BounceRecord[]>();
+  records.forEach(record => {
+    byAddress.set(record.address, (byAddress.get(record.address) ?? []).concat(record));
+  });
+
+  return {
+    lookup(email, now = Date.now()) {
+      const address = bounceAddress(email);
+      const recent = now - RECENT_BOUNCE_DAYS * 24 * 60 * 60 * 1000;
+      const relevant = (address ? byAddress.get(address) ?? [] : [])
+        .filter(record => record.classification === 'hard' || Date.parse(record.bouncedAt) >= recent)
+        // Most severe first, then most recent
+        .sort((a, b) => SEVERITY.indexOf(a.classification) - SEVERITY.indexOf(b.classification)
+          || Date.parse(b.bouncedAt) - Date.parse(a.bouncedAt));
+      return relevant[0] ?? null;
+    }
+  };
+}
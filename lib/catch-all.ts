@@ -0,0 +1,69 @@
+import { RandomSource } from '@/lib/random';
+import { classifySmtpReply, isSmtpError, SmtpSession } from '@/lib/smtp-prober';
+
+// Catch-all detection: once a server has accepted the target address, ask it
+// about local parts nobody would ever own. A server that accepts those too
+// says "yes" to everything, so its acceptance of the target proves nothing.
+
+export type CatchAllVerdict = 'accept_all' | 'rejecting' | 'inconclusive';
+
+export interface CatchAllCache {
+  get(domain: string): CatchAllVerdict | undefined;
+  set(domain: string, verdict: CatchAllVerdict): void;
+}
+
+// Verdicts are cached per domain so a bulk job probes each domain once
+export function createCatchAllCache(ttlMs = 6 * 60 * 60 * 1000): CatchAllCache {
+  const entries = new Map<string, { verdict: CatchAllVerdict; expiresAt: number }>();
+
+  return {
+    get(domain) {
+      const key = domain.toLowerCase();
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.verdict;
+    },
+    set(domain, verdict) {
+      entries.set(domain.toLowerCase(), { verdict, expiresAt: Date.now() + ttlMs });
+    }
+  };
+}
+
+const PROBE_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+export function randomLocalPart(random: RandomSource, length = 24): string {
+  let localPart = '';
+  for (let i = 0; i < length; i++) {
+    localPart += PROBE_ALPHABET[Math.floor(random() * PROBE_ALPHABET.length)];
+  }
+  return localPart;
+}
+
+// Probe `probes` random addresses on an already-open session. Any accepted
+// probe means accept-all; every probe rejected means the server really checks
+// mailboxes; anything else (greylisting, policy blocks) is inconclusive.
+export async function probeCatchAll(
+  session: SmtpSession,
+  domain: string,
+  random: RandomSource,
+  probes = 2
+): Promise<CatchAllVerdict> {
+  let rejected = 0;
+
+  for (let i = 0; i < probes; i++) {
+    try {
+      const outcome = classifySmtpReply(await session.rcptTo(`${randomLocalPart(random)}@${domain}`));
+      if (outcome === 'pass') return 'accept_all';
+      if (outcome === 'fail') rejected++;
+    } catch (error) {
+      if (isSmtpError(error)) return 'inconclusive';
+      throw error;
+    }
+  }
+
+  return rejected === probes ? 'rejecting' : 'inconclusive';
+}
@@ -0,0 +1,29 @@
+import type { BounceRecord } from '@/lib/bounces';
+import { mailboxOf, PASSED } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+import type { CheckResult } from '@/lib/validation-result';
+
+export function bounceCheckFromRecord(record: BounceRecord | null): CheckResult {
+  if (!record) return PASSED;
+  if (record.classification === 'hard') return { status: 'fail', reason: 'hard_bounce' };
+  return { status: 'warning', reason: record.classification === 'block' ? 'block_bounce' : 'soft_bounce' };
+}
+
+export const bouncesCheck: CheckDefinition = {
+  id: 'bounces',
+  label: 'Bounces',
+  title: 'Bounce History',
+  description: 'Bounces recorded from earlier sends',
+  icon: 'alert',
+  column: false,
+  dependsOn: ['syntax'],
+  scoring: { kind: 'penalty', points: 20 },
+  passReason: 'No bounce is on record for the address.',
+  describe: ({ bounce }) => bounce
+    ? `${bounce.classification} bounce on ${bounce.bouncedAt.split('T')[0]}: ${bounce.diagnostic}`
+    : null,
+  run: async context => {
+    const bounce = context.options.bounceHistory?.lookup(mailboxOf(context)) ?? null;
+    return { result: bounceCheckFromRecord(bounce), details: { bounce } };
+  }
+};
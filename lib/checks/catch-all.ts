@@ -0,0 +1,32 @@
+import type { CatchAllVerdict } from '@/lib/catch-all';
+import { PASSED } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+import { CheckResult, NOT_CHECKED } from '@/lib/validation-result';
+
+export function catchAllCheckFromVerdict(verdict: CatchAllVerdict | null): CheckResult {
+  if (verdict === 'accept_all') return { status: 'warning', reason: 'catch_all' };
+  if (verdict === 'rejecting') return PASSED;
+  if (verdict === 'inconclusive') return { status: 'unknown', reason: 'catch_all_inconclusive' };
+  return NOT_CHECKED;
+}
+
+// The probe itself runs inside the SMTP session, once the target is accepted
+export const catchAllCheck: CheckDefinition = {
+  id: 'catchAll',
+  label: 'Catch-All',
+  title: 'Catch-All Detection',
+  description: 'Domain catch-all configuration',
+  icon: 'globe',
+  column: true,
+  dependsOn: ['smtp'],
+  scoring: { kind: 'penalty', points: 5 },
+  passReason: 'The domain rejects mail for unknown mailboxes.',
+  describe: ({ catchAllVerdict }) => catchAllVerdict
+    ? {
+      accept_all: 'Domain accepts mail for any address',
+      rejecting: 'Domain rejects unknown mailboxes',
+      inconclusive: 'Catch-all probe was inconclusive'
+    }[catchAllVerdict]
+    : null,
+  run: async ({ details }) => ({ result: catchAllCheckFromVerdict(details.catchAllVerdict ?? null) })
+};
@@ -0,0 +1,27 @@
+import { check, parsedAddress } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+
+export const disposableCheck: CheckDefinition = {
+  id: 'disposable',
+  label: 'Disposable',
+  title: 'Disposable Check',
+  description: 'Temporary/disposable email detection',
+  icon: 'alert',
+  column: true,
+  dependsOn: ['syntax'],
+  scoring: { kind: 'penalty', points: 10 },
+  passReason: 'The domain is not a known disposable provider.',
+  describe: ({ disposableMatch }) => disposableMatch
+    ? `Listed as ${disposableMatch.entry} in ${disposableMatch.listSource} (version ${disposableMatch.listVersion})`
+    : null,
+  run: async context => {
+    // The built-in list is loaded on first use, keeping it out of client bundles
+    const matcher = context.options.disposableMatcher
+      ?? (await import('@/lib/disposable-domains')).getBuiltinDisposableMatcher();
+    const disposableMatch = matcher.match(parsedAddress(context).asciiDomain);
+    return {
+      result: check(disposableMatch === null, 'disposable_domain', 'warning'),
+      details: { disposableMatch }
+    };
+  }
+};
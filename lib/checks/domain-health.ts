@@ -0,0 +1,39 @@
+import { parsedAddress, PASSED } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+import { checkDomainHealth, DomainHealthReport, domainHealthStatus } from '@/lib/domain-health';
+import { CheckResult, NOT_CHECKED } from '@/lib/validation-result';
+
+export function domainHealthCheckFromReport(report: DomainHealthReport | null): CheckResult {
+  if (!report) return NOT_CHECKED;
+  const status = domainHealthStatus(report);
+  if (status === 'invalid') return { status: 'warning', reason: 'broken_mail_auth' };
+  if (status === 'missing') return { status: 'warning', reason: 'no_mail_auth' };
+  if (status === 'unknown') return { status: 'unknown', reason: 'dns_error' };
+  return PASSED;
+}
+
+export const domainHealthCheck: CheckDefinition = {
+  id: 'domainHealth',
+  label: 'Domain Health',
+  title: 'Domain Health',
+  description: 'SPF, DMARC, MTA-STS and TLS-RPT records',
+  icon: 'shield',
+  column: false,
+  dependsOn: ['mx'],
+  scoring: { kind: 'penalty', points: 5 },
+  timeoutMs: 10000,
+  passReason: 'The domain publishes valid SPF and DMARC records.',
+  describe: ({ domainHealthReport }) => {
+    if (!domainHealthReport) return null;
+    const { spf, dmarc, mtaSts, tlsRpt } = domainHealthReport;
+    return ([['SPF', spf], ['DMARC', dmarc], ['MTA-STS', mtaSts], ['TLS-RPT', tlsRpt]] as const)
+      .map(([name, policy]) => `${name}: ${policy.grade}${policy.issues.length > 0 ? ` (${policy.issues.join('; ')})` : ''}`)
+      .join(' · ');
+  },
+  run: async context => {
+    // IP literals have no DNS name, and a failed MX lookup leaves nothing to grade
+    if (!context.details.mxOutcome) return { result: NOT_CHECKED };
+    const domainHealthReport = await checkDomainHealth(parsedAddress(context).asciiDomain, context.options.resolver);
+    return { result: domainHealthCheckFromReport(domainHealthReport), details: { domainHealthReport } };
+  }
+};
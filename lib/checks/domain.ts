@@ -0,0 +1,37 @@
+import { check, mailboxOf, parsedAddress, splitEmail } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+import { toAsciiDomain } from '@/lib/idn';
+
+// Domain validation function
+export function validateDomain(email: string): boolean {
+  if (!email.includes('@')) return false;
+  
+  const domain = toAsciiDomain(splitEmail(email).domain);
+  if (!domain) return false;
+  
+  // Check domain format (internationalized names in their punycode form)
+  const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+  if (!domainRegex.test(domain)) return false;
+  
+  // Check for valid TLD
+  const parts = domain.split('.');
+  const tld = parts[parts.length - 1];
+  return tld.length >= 2 && (/^[a-zA-Z]+$/.test(tld) || /^xn--[a-z0-9-]+$/.test(tld));
+}
+
+export const domainCheck: CheckDefinition = {
+  id: 'domain',
+  label: 'Domain',
+  title: 'Domain Validation',
+  description: 'DNS resolution and domain existence',
+  icon: 'globe',
+  column: true,
+  dependsOn: ['syntax'],
+  scoring: { kind: 'weight', points: 15 },
+  passReason: 'The domain name is valid.',
+  run: async context => ({
+    result: parsedAddress(context).isIpLiteral
+      ? { status: 'warning', reason: 'ip_literal' }
+      : check(validateDomain(mailboxOf(context)), 'invalid_domain')
+  })
+};
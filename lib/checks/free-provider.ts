@@ -0,0 +1,23 @@
+import { check, parsedAddress } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+
+// Informational: free addresses are deliverable, just not business ones
+export const freeProviderCheck: CheckDefinition = {
+  id: 'freeProvider',
+  label: 'Free Provider',
+  title: 'Free Provider Check',
+  description: 'Personal webmail vs. business address',
+  icon: 'mail',
+  column: true,
+  dependsOn: ['syntax'],
+  scoring: { kind: 'penalty', points: 0 },
+  passReason: 'The address is not at a free webmail provider.',
+  describe: ({ freeProvider, address }) => freeProvider.status === 'warning' && address
+    ? `${address.unicodeDomain} is a free webmail provider`
+    : null,
+  run: async context => {
+    // Loaded on first use, like the disposable list
+    const { isFreeProvider } = await import('@/lib/free-providers');
+    return { result: check(!isFreeProvider(parsedAddress(context).asciiDomain), 'free_provider', 'warning') };
+  }
+};
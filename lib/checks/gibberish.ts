@@ -0,0 +1,26 @@
+import { check, parsedAddress } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+import { DEFAULT_GIBBERISH_THRESHOLD, scoreGibberish } from '@/lib/gibberish';
+
+export const gibberishCheck: CheckDefinition = {
+  id: 'gibberish',
+  label: 'Gibberish',
+  title: 'Gibberish Check',
+  description: 'Random or machine-generated local part detection',
+  icon: 'alert',
+  column: true,
+  dependsOn: ['syntax'],
+  scoring: { kind: 'penalty', points: 10 },
+  passReason: 'The local part looks like a real name or word.',
+  describe: ({ gibberishScore }) => gibberishScore?.signal
+    ? `Randomness score ${Math.round(gibberishScore.score * 100)}% (${gibberishScore.signal.replace(/_/g, ' ')})`
+    : null,
+  run: async context => {
+    const gibberishScore = scoreGibberish(parsedAddress(context).localPart);
+    const threshold = context.options.gibberishThreshold ?? DEFAULT_GIBBERISH_THRESHOLD;
+    return {
+      result: check(gibberishScore.score < threshold, 'gibberish_local_part', 'warning'),
+      details: { gibberishScore }
+    };
+  }
+};
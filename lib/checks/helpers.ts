@@ -0,0 +1,31 @@
+import { formatAddress, ParsedAddress } from '@/lib/address-parser';
+import type { CheckContext } from '@/lib/checks/types';
+import type { CheckReason, CheckResult, CheckStatus } from '@/lib/validation-result';
+
+export const PASSED: CheckResult = { status: 'pass', reason: 'ok' };
+
+export function check(passed: boolean, reason: CheckReason, failStatus: CheckStatus = 'fail'): CheckResult {
+  return passed ? PASSED : { status: failStatus, reason };
+}
+
+// The domain follows the last @; quoted local parts may contain @ themselves
+export function splitEmail(email: string): { localPart: string; domain: string } {
+  const at = email.lastIndexOf('@');
+  return at === -1
+    ? { localPart: email, domain: '' }
+    : { localPart: email.slice(0, at), domain: email.slice(at + 1) };
+}
+
+// Every check but syntax depends on it, so the address is parsed by the time
+// they run. They work on it with comments and surrounding noise stripped and
+// the domain in its punycode form.
+export function parsedAddress(context: CheckContext): ParsedAddress {
+  const { address } = context.details;
+  if (!address) throw new Error('Check ran before the address was parsed');
+  return address;
+}
+
+// The address as mail servers see it
+export function mailboxOf(context: CheckContext): string {
+  return formatAddress(parsedAddress(context), 'ascii');
+}
@@ -0,0 +1,115 @@
+import { bouncesCheck } from '@/lib/checks/bounces';
+import { catchAllCheck } from '@/lib/checks/catch-all';
+import { disposableCheck } from '@/lib/checks/disposable';
+import { domainCheck } from '@/lib/checks/domain';
+import { domainHealthCheck } from '@/lib/checks/domain-health';
+import { freeProviderCheck } from '@/lib/checks/free-provider';
+import { gibberishCheck } from '@/lib/checks/gibberish';
+import { mxCheck } from '@/lib/checks/mx';
+import { reputationCheck } from '@/lib/checks/reputation';
+import { roleBasedCheck } from '@/lib/checks/role-based';
+import { smtpCheck } from '@/lib/checks/smtp';
+import { syntaxCheck } from '@/lib/checks/syntax';
+import type { CheckContext, CheckDefinition, CheckOutcome } from '@/lib/checks/types';
+import { EmailChecks, NOT_CHECKED } from '@/lib/validation-result';
+
+export type {
+  CheckContext,
+  CheckDefinition,
+  CheckIconKey,
+  CheckId,
+  CheckOutcome,
+  CheckScoring,
+  ValidationOptions
+} from '@/lib/checks/types';
+
+// The validation pipeline. Order here is display order: the validate page's
+// layers, the bulk table's columns, the CSV export and the score breakdown
+// all follow it. Run order comes from each check's dependencies.
+export const CHECKS: CheckDefinition[] = [
+  syntaxCheck,
+  domainCheck,
+  mxCheck,
+  disposableCheck,
+  freeProviderCheck,
+  roleBasedCheck,
+  gibberishCheck,
+  catchAllCheck,
+  smtpCheck,
+  domainHealthCheck,
+  reputationCheck,
+  bouncesCheck
+];
+
+function isSkipped(definition: CheckDefinition, results: Partial<EmailChecks>): boolean {
+  return definition.dependsOn.some(id => {
+    const result = results[id]!;
+    return result.status === 'fail' || result.reason === 'not_checked';
+  });
+}
+
+const TIMED_OUT: CheckOutcome = { result: { status: 'unknown', reason: 'check_timeout' } };
+
+// Run one check within `budgetMs`. When the budget runs out the check's
+// signal aborts and it counts as unknown, whatever it reports later; an
+// abort of the caller's signal rejects with its reason.
+function runWithBudget(
+  definition: CheckDefinition,
+  context: CheckContext,
+  budgetMs: number | undefined
+): Promise<CheckOutcome> {
+  const { signal } = context.options;
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort = () => {};
+
+  const cutShort = new Promise<CheckOutcome>((resolve, reject) => {
+    onAbort = () => {
+      controller.abort();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort);
+    if (budgetMs === undefined) return;
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve(TIMED_OUT);
+    }, budgetMs);
+  });
+
+  return Promise.race([definition.run(context, controller.signal), cutShort]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  });
+}
+
+// Run every check, each as soon as its dependencies have finished; checks
+// that are ready at the same time run concurrently
+export async function runChecks(context: CheckContext): Promise<EmailChecks> {
+  const { options } = context;
+  const deadline = options.timeoutMs === undefined ? undefined : Date.now() + options.timeoutMs;
+  let pending = CHECKS.slice();
+
+  while (pending.length > 0) {
+    options.signal?.throwIfAborted();
+    const ready = pending.filter(definition => definition.dependsOn.every(id => context.results[id]));
+    if (ready.length === 0) {
+      throw new Error(`Checks with unmet dependencies: ${pending.map(definition => definition.id).join(', ')}`);
+    }
+
+    const remaining = deadline === undefined ? undefined : deadline - Date.now();
+    const outcomes = await Promise.all(ready.map((definition): Promise<CheckOutcome> => {
+      if (isSkipped(definition, context.results)) return Promise.resolve({ result: NOT_CHECKED });
+      // Past the deadline, whatever is left is reported without running
+      if (remaining !== undefined && remaining <= 0) return Promise.resolve(TIMED_OUT);
+      const budgets = [options.checkTimeouts?.[definition.id] ?? definition.timeoutMs, remaining]
+        .filter((budget): budget is number => budget !== undefined);
+      return runWithBudget(definition, context, budgets.length > 0 ? Math.min(...budgets) : undefined);
+    }));
+    ready.forEach((definition, index) => {
+      context.results[definition.id] = outcomes[index].result;
+      Object.assign(context.details, outcomes[index].details);
+    });
+    pending = pending.filter(definition => ready.indexOf(definition) === -1);
+  }
+  return context.results as EmailChecks;
+}
@@ -0,0 +1,120 @@
+import { parsedAddress, PASSED } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+import { DnsErrorCode, DnsResolver, isDnsError, MxRecord } from '@/lib/dns-resolver';
+import { fingerprintMailProvider } from '@/lib/mx-providers';
+import type { CheckResult, MxOutcome } from '@/lib/validation-result';
+
+const DNS_FAILURES: Record<DnsErrorCode, CheckResult> = {
+  NXDOMAIN: { status: 'fail', reason: 'domain_not_found' },
+  NODATA: { status: 'fail', reason: 'mx_not_found' },
+  TIMEOUT: { status: 'unknown', reason: 'dns_timeout' },
+  SERVFAIL: { status: 'unknown', reason: 'dns_error' }
+};
+
+export interface MxLookup {
+  check: CheckResult;
+  records: MxRecord[];
+  // null when the lookup itself failed (timeout, server error)
+  outcome: MxOutcome | null;
+}
+
+function failedLookup(code: DnsErrorCode): MxLookup {
+  return { check: DNS_FAILURES[code], records: [], outcome: code === 'NXDOMAIN' ? 'nxdomain' : null };
+}
+
+// "MX 0 ." (RFC 7505): the domain states that it accepts no mail at all.
+// Node reports the root target as an empty exchange.
+function isNullMx(records: MxRecord[]): boolean {
+  return records.length > 0 && records.every(record => record.exchange === '' || record.exchange === '.');
+}
+
+// Without MX records, a domain with an A or AAAA record is its own mail host
+// (RFC 5321 section 5.1)
+async function lookupImplicitMx(domain: string, resolver: DnsResolver): Promise<MxLookup> {
+  const lookups = await Promise.all([resolver.resolve4(domain), resolver.resolve6(domain)].map(lookup =>
+    lookup.then(addresses => addresses.length, error => {
+      if (isDnsError(error)) return error.code;
+      throw error;
+    })
+  ));
+
+  if (lookups.some(found => typeof found === 'number' && found > 0)) {
+    return {
+      check: { status: 'warning', reason: 'implicit_mx' },
+      records: [{ exchange: domain, priority: 0 }],
+      outcome: 'implicit_a'
+    };
+  }
+  if (lookups.indexOf('NXDOMAIN') !== -1) return failedLookup('NXDOMAIN');
+  const failure = lookups.find(found => found === 'TIMEOUT' || found === 'SERVFAIL') as DnsErrorCode | undefined;
+  if (failure) return failedLookup(failure);
+  return { check: DNS_FAILURES.NODATA, records: [], outcome: 'no_records' };
+}
+
+// An IP-literal domain names its mail server directly, so it stands in for
+// the MX record: "[192.0.2.1]" -> 192.0.2.1, "[IPv6:2001:db8::1]" -> 2001:db8::1
+function ipLiteralHost(domain: string): string {
+  return domain.slice(1, -1).replace(/^IPv6:/i, '');
+}
+
+// Resolve the domain's mail hosts, most preferred (lowest priority value)
+// first, following the implicit MX and null MX rules
+export async function lookupMxRecords(domain: string, resolver: DnsResolver): Promise<MxLookup> {
+  let records: MxRecord[];
+  try {
+    records = await resolver.resolveMx(domain);
+  } catch (error) {
+    if (!isDnsError(error)) throw error;
+    if (error.code !== 'NODATA') return failedLookup(error.code);
+    records = [];
+  }
+
+  if (isNullMx(records)) {
+    return { check: { status: 'fail', reason: 'null_mx' }, records: [], outcome: 'null_mx' };
+  }
+
+  const hosts = records
+    .filter(record => record.exchange && record.exchange !== '.')
+    .sort((a, b) => a.priority - b.priority);
+  if (hosts.length === 0) return lookupImplicitMx(domain, resolver);
+  return { check: PASSED, records: hosts, outcome: 'mx' };
+}
+
+export const mxCheck: CheckDefinition = {
+  id: 'mx',
+  label: 'MX',
+  title: 'MX Records',
+  description: 'Mail exchange server configuration',
+  icon: 'shield',
+  column: true,
+  dependsOn: ['domain'],
+  scoring: { kind: 'weight', points: 15 },
+  timeoutMs: 10000,
+  passReason: 'The domain has mail servers configured.',
+  describe: ({ mxOutcome, mxRecords, provider }) => {
+    const hosts = mxOutcome === 'implicit_a'
+      ? 'No MX records - mail is delivered to the domain\'s A/AAAA address'
+      : mxOutcome === 'null_mx'
+        ? 'Null MX (RFC 7505) - the domain accepts no mail'
+        : mxOutcome === 'nxdomain'
+          ? 'The domain does not exist'
+          : mxRecords.map(record => `${record.exchange} (${record.priority})`).join(', ');
+    if (!provider) return hosts || null;
+    return `${hosts || mxCheck.description} - hosted by ${provider.name}`;
+  },
+  run: async context => {
+    const address = parsedAddress(context);
+    const domain = address.asciiDomain;
+    const lookup: MxLookup = address.isIpLiteral
+      ? { check: PASSED, records: [{ exchange: ipLiteralHost(domain), priority: 0 }], outcome: null }
+      : await lookupMxRecords(domain, context.options.resolver);
+    return {
+      result: lookup.check,
+      details: {
+        mxRecords: lookup.records,
+        mxOutcome: lookup.outcome,
+        provider: fingerprintMailProvider(lookup.records)
+      }
+    };
+  }
+};
@@ -0,0 +1,40 @@
+import { parsedAddress, PASSED } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+import { checkDnsbl, DEFAULT_DNSBL_LISTS, DnsblReport } from '@/lib/dnsbl';
+import { CheckResult, NOT_CHECKED } from '@/lib/validation-result';
+
+export function reputationCheckFromReport(report: DnsblReport | null): CheckResult {
+  if (!report || report.queries === 0) return NOT_CHECKED;
+  if (report.listings.length > 0) return { status: 'warning', reason: 'blocklisted' };
+  if (report.failures === report.queries) return { status: 'unknown', reason: 'dns_error' };
+  return PASSED;
+}
+
+export const reputationCheck: CheckDefinition = {
+  id: 'reputation',
+  label: 'Blocklists',
+  title: 'Blocklist Check',
+  description: 'MX addresses and domain on DNS blocklists',
+  icon: 'alert',
+  column: false,
+  dependsOn: ['mx'],
+  scoring: { kind: 'penalty', points: 15 },
+  timeoutMs: 10000,
+  passReason: 'Neither the mail servers nor the domain are on a blocklist.',
+  describe: ({ dnsblReport }) => dnsblReport?.listings.length
+    ? dnsblReport.listings
+      .map(listing => `${listing.host ? `${listing.host} (${listing.target})` : listing.target} listed on ${listing.zone}`)
+      .join(', ')
+    : null,
+  run: async context => {
+    const mxRecords = context.details.mxRecords ?? [];
+    if (mxRecords.length === 0) return { result: NOT_CHECKED };
+
+    // An IP literal has no domain to look up on domain lists
+    const address = parsedAddress(context);
+    const lists = (context.options.dnsblLists ?? DEFAULT_DNSBL_LISTS)
+      .filter(list => list.kind === 'ip' || !address.isIpLiteral);
+    const dnsblReport = await checkDnsbl(address.asciiDomain, mxRecords, context.options.resolver, lists);
+    return { result: reputationCheckFromReport(dnsblReport), details: { dnsblReport } };
+  }
+};
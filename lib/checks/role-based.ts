@@ -0,0 +1,32 @@
+import { check, mailboxOf, splitEmail } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+
+// Check if email is role-based
+export function isRoleBasedEmail(email: string): boolean {
+  const localPart = splitEmail(email).localPart.replace(/^"|"$/g, '').toLowerCase();
+  if (!localPart) return false;
+  
+  const roleBasedPrefixes = [
+    'admin', 'administrator', 'info', 'support', 'sales', 'contact', 'help',
+    'noreply', 'no-reply', 'webmaster', 'postmaster', 'hostmaster', 'abuse',
+    'security', 'privacy', 'legal', 'billing', 'accounts', 'marketing',
+    'hr', 'careers', 'jobs', 'recruitment', 'press', 'media', 'news'
+  ];
+  
+  return roleBasedPrefixes.some(prefix => 
+    localPart === prefix || localPart.startsWith(prefix + '.') || localPart.startsWith(prefix + '-')
+  );
+}
+
+export const roleBasedCheck: CheckDefinition = {
+  id: 'roleBased',
+  label: 'Role-Based',
+  title: 'Role-Based Check',
+  description: 'Generic role account detection',
+  icon: 'mail',
+  column: true,
+  dependsOn: ['syntax'],
+  scoring: { kind: 'penalty', points: 5 },
+  passReason: 'The address belongs to a person rather than a role.',
+  run: async context => ({ result: check(!isRoleBasedEmail(mailboxOf(context)), 'role_account', 'warning') })
+};
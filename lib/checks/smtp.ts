@@ -0,0 +1,64 @@
+import { CatchAllVerdict, probeCatchAll } from '@/lib/catch-all';
+import { mailboxOf, parsedAddress, PASSED } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+import { createSeededRandom } from '@/lib/random';
+import { SmtpCheckResult, SmtpSession, verifyMailbox } from '@/lib/smtp-prober';
+import { CheckResult, NOT_CHECKED } from '@/lib/validation-result';
+
+export function smtpCheckFromProbe(probe: SmtpCheckResult): CheckResult {
+  if (probe.outcome === 'pass') return PASSED;
+  if (probe.outcome === 'fail' && probe.smtpUtf8Supported === false) {
+    return { status: 'fail', reason: 'smtputf8_unsupported' };
+  }
+  if (probe.outcome === 'fail') return { status: 'fail', reason: 'mailbox_not_found' };
+  if (probe.error === 'timeout') return { status: 'unknown', reason: 'smtp_timeout' };
+  if (probe.error === 'connection_failed' || probe.error === 'private_address') {
+    return { status: 'unknown', reason: 'smtp_connection_failed' };
+  }
+  if (probe.enhancedCode?.startsWith('5.7.') || probe.code === 554) return { status: 'unknown', reason: 'smtp_blocked' };
+  if (probe.code === 421) return { status: 'unknown', reason: 'smtp_unavailable' };
+  if (probe.code && probe.code >= 400 && probe.code < 500) return { status: 'unknown', reason: 'greylisted' };
+  return { status: 'unknown', reason: 'smtp_unavailable' };
+}
+
+export const smtpCheck: CheckDefinition = {
+  id: 'smtp',
+  label: 'SMTP',
+  title: 'SMTP Verification',
+  description: 'Mailbox existence validation',
+  icon: 'zap',
+  column: true,
+  dependsOn: ['mx', 'disposable'],
+  scoring: { kind: 'weight', points: 25 },
+  timeoutMs: 60000,
+  passReason: 'The mail server accepted the mailbox.',
+  describe: ({ smtpProbe, provider, smtp }) => {
+    const reply = smtpProbe?.code ? `${smtpProbe.mxHost} replied ${smtpProbe.code} ${smtpProbe.message}` : null;
+    if (provider?.category !== 'gateway' || smtp.status !== 'pass') return reply;
+    return `${reply ?? smtpCheck.description} (${provider.name} is a security gateway and may accept any address)`;
+  },
+  run: async (context, signal) => {
+    const { details, options } = context;
+    const mxRecords = details.mxRecords ?? [];
+    // Disposable mailboxes are not worth a connection to their servers
+    if (mxRecords.length === 0 || details.disposableMatch) return { result: NOT_CHECKED };
+
+    // Probe for catch-all only after the target is accepted, and only for
+    // domains without a cached verdict
+    const address = parsedAddress(context);
+    const domain = address.asciiDomain;
+    let catchAllVerdict: CatchAllVerdict | null = options.catchAllCache?.get(domain) ?? null;
+    const detectCatchAll = catchAllVerdict ? undefined : async (session: SmtpSession) => {
+      const random = options.random ?? createSeededRandom(domain.toLowerCase());
+      catchAllVerdict = await probeCatchAll(session, domain, random, options.catchAllProbes);
+      options.catchAllCache?.set(domain, catchAllVerdict);
+    };
+
+    const smtpProbe = await verifyMailbox(mailboxOf(context), mxRecords, options.smtpProber, {
+      smtpUtf8: address.requiresSmtpUtf8,
+      onAccepted: detectCatchAll,
+      signal
+    });
+    return { result: smtpCheckFromProbe(smtpProbe), details: { smtpProbe, catchAllVerdict } };
+  }
+};
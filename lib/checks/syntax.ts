@@ -0,0 +1,30 @@
+import { parseAddress } from '@/lib/address-parser';
+import { PASSED } from '@/lib/checks/helpers';
+import type { CheckDefinition } from '@/lib/checks/types';
+
+// RFC 5321/5322 syntax, checked by the address parser. The parsed address is
+// what every later check works on.
+export const syntaxCheck: CheckDefinition = {
+  id: 'syntax',
+  label: 'Syntax',
+  title: 'Syntax Check',
+  description: 'RFC 5322 compliance validation',
+  icon: 'mail',
+  column: true,
+  dependsOn: [],
+  scoring: { kind: 'weight', points: 20 },
+  passReason: 'The address is well-formed.',
+  describe: ({ address, syntaxError }) => {
+    if (syntaxError) return `${syntaxError.message} (at character ${syntaxError.position + 1})`;
+    if (address?.requiresSmtpUtf8) return 'Internationalized address - requires an SMTPUTF8 mail server';
+    if (address?.isQuoted) return 'Valid address with a quoted local part';
+    if (address?.isIpLiteral) return 'Valid address with an IP-literal domain';
+    return null;
+  },
+  run: async ({ email, options }) => {
+    const parsed = parseAddress(email, options.syntaxMode ?? 'strict');
+    return parsed.ok
+      ? { result: PASSED, details: { address: parsed.address } }
+      : { result: { status: 'fail', reason: 'invalid_syntax' }, details: { syntaxError: parsed.error } };
+  }
+};
@@ -0,0 +1,105 @@
+import type { AddressParseMode } from '@/lib/address-parser';
+import type { BounceHistory } from '@/lib/bounces';
+import type { CatchAllCache } from '@/lib/catch-all';
+import type { DisposableMatcher } from '@/lib/disposable-domains';
+import type { DnsblList } from '@/lib/dnsbl';
+import type { DnsResolver } from '@/lib/dns-resolver';
+import type { OverrideMatcher } from '@/lib/overrides';
+import type { RandomSource } from '@/lib/random';
+import type { ScoringProfile } from '@/lib/scoring-profiles';
+import type { SmtpProber } from '@/lib/smtp-prober';
+import type { SuppressionMatcher } from '@/lib/suppressions';
+import type { ValidationHistory } from '@/lib/validation-history';
+import type { CheckResult, EmailChecks, EmailValidationResult } from '@/lib/validation-result';
+
+export type CheckId = keyof EmailChecks;
+
+// Icons are named rather than imported so the registry stays free of React
+export type CheckIconKey = 'mail' | 'globe' | 'shield' | 'alert' | 'zap';
+
+// External services the validation engine depends on. validateEmail is
+// deterministic for a given address and set of options: anything random is
+// drawn from `random`, which defaults to a source seeded with the domain.
+export interface ValidationOptions {
+  resolver: DnsResolver;
+  smtpProber: SmtpProber;
+  catchAllCache?: CatchAllCache;
+  catchAllProbes?: number;
+  random?: RandomSource;
+  syntaxMode?: AddressParseMode;
+  // Defaults to the built-in list; see createDisposableMatcher to add team lists
+  disposableMatcher?: DisposableMatcher;
+  scoringProfile?: ScoringProfile;
+  // DNS blocklists to check the MX addresses and domain against
+  dnsblLists?: DnsblList[];
+  // Gibberish score (0-1) at which a local part is flagged
+  gibberishThreshold?: number;
+  // Team overrides, consulted before any check runs
+  overrides?: OverrideMatcher;
+  // Bounces recorded from bounce messages
+  bounceHistory?: BounceHistory;
+  // Past verdicts, served instead of re-running the checks while they are
+  // younger than historyWindowMs (7 days by default); `refresh` skips them
+  history?: ValidationHistory;
+  historyWindowMs?: number;
+  refresh?: boolean;
+  // Suppression lists; a listed address is still validated, then reported
+  // as suppressed
+  suppressions?: SuppressionMatcher;
+  // Aborting stops the validation; validateEmail then rejects with the
+  // signal's reason
+  signal?: AbortSignal;
+  // Time budgets in ms, per check (overriding their defaults) and for the
+  // whole validation. Checks still running when their budget or the deadline
+  // runs out are reported as unknown.
+  checkTimeouts?: Partial<Record<CheckId, number>>;
+  timeoutMs?: number;
+}
+
+// State shared by the checks of one validation
+export interface CheckContext {
+  email: string;
+  options: ValidationOptions;
+  // Results of the checks that have run so far
+  results: Partial<EmailChecks>;
+  // Details they reported: the parsed address, MX records, reports
+  details: Partial<EmailValidationResult>;
+}
+
+export interface CheckOutcome {
+  result: CheckResult;
+  details?: Partial<EmailValidationResult>;
+}
+
+export interface CheckScoring {
+  // 'weight' checks earn their points when they pass; 'penalty' checks
+  // deduct theirs when they warn or fail
+  kind: 'weight' | 'penalty';
+  // Default points; scoring profiles may override them
+  points: number;
+}
+
+export interface CheckDefinition {
+  id: CheckId;
+  // Short name for table columns, CSV headers and the score breakdown
+  label: string;
+  // Name and summary of the check's layer on the validate page
+  title: string;
+  description: string;
+  icon: CheckIconKey;
+  // Whether the bulk results table gives the check its own column
+  column: boolean;
+  // Checks whose results or details this one reads. It runs after them, and
+  // is skipped when any of them failed or was skipped.
+  dependsOn: CheckId[];
+  scoring: CheckScoring;
+  // Default time budget in ms; checks that only look at the address need none
+  timeoutMs?: number;
+  // What a passing result means, for the score breakdown
+  passReason: string;
+  // Layer description for a finished result, or null to keep the summary
+  describe?: (result: EmailValidationResult) => string | null;
+  // `signal` aborts when the check's budget runs out; checks doing network
+  // I/O pass it on so the connection is torn down
+  run: (context: CheckContext, signal: AbortSignal) => Promise<CheckOutcome>;
+}
@@ -0,0 +1,57 @@
+// Minimal RFC 4180 CSV: quoted fields may hold commas, doubled quotes and
+// line breaks.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no record
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+// Spreadsheets run text starting with these as a formula, so such cells get a
+// leading apostrophe (OWASP's CSV injection advice). Numbers are left alone.
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+export function formatCsvField(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_TRIGGER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows.map(row => row.map(formatCsvField).join(',')).join('\n');
+}
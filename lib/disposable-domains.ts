@@ -0,0 +1,83 @@
+import builtinDataset from '@/lib/data/disposable-domains.json';
+
+// Disposable (throwaway) mailbox providers. The built-in list ships as a
+// versioned data file; teams can merge in their own lists at runtime.
+//
+// An entry matches the domain itself and every subdomain of it, so
+// "mailinator.com" also catches "foo.mailinator.com". An entry written as
+// "*.example.com" matches subdomains only.
+
+export interface DisposableList {
+  version: string;
+  source: string;
+  domains: string[];
+}
+
+export interface DisposableMatch {
+  // The list entry that matched, e.g. "mailinator.com" for foo.mailinator.com
+  entry: string;
+  listVersion: string;
+  listSource: string;
+}
+
+export interface DisposableMatcher {
+  lists: Array<Omit<DisposableList, 'domains'>>;
+  match(domain: string): DisposableMatch | null;
+}
+
+export const BUILTIN_DISPOSABLE_LIST: DisposableList = builtinDataset;
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/\.$/, '');
+}
+
+// Later lists win when the same entry appears in several
+export function createDisposableMatcher(lists: DisposableList[]): DisposableMatcher {
+  const exact = new Map<string, DisposableMatch>();
+  const subdomainsOnly = new Map<string, DisposableMatch>();
+
+  lists.forEach(list => {
+    list.domains.forEach(raw => {
+      const entry = normalizeDomain(raw);
+      if (!entry) return;
+      const wildcard = entry.startsWith('*.');
+      const key = wildcard ? entry.slice(2) : entry;
+      (wildcard ? subdomainsOnly : exact).set(key, {
+        entry,
+        listVersion: list.version,
+        listSource: list.source
+      });
+    });
+  });
+
+  return {
+    lists: lists.map(({ version, source }) => ({ version, source })),
+    match(domain) {
+      const labels = normalizeDomain(domain).split('.');
+
+      // Walk from the full name up to (but not including) the bare TLD
+      for (let i = 0; i < labels.length - 1; i++) {
+        const candidate = labels.slice(i).join('.');
+        const match = exact.get(candidate) || (i > 0 ? subdomainsOnly.get(candidate) : undefined);
+        if (match) return match;
+      }
+      return null;
+    }
+  };
+}
+
+// Parse a team-supplied list: one domain per line, # starts a comment
+export function parseDisposableList(text: string, version: string, source: string): DisposableList {
+  const domains = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(Boolean);
+  return { version, source, domains };
+}
+
+let builtinMatcher: DisposableMatcher | null = null;
+
+export function getBuiltinDisposableMatcher(): DisposableMatcher {
+  if (!builtinMatcher) builtinMatcher = createDisposableMatcher([BUILTIN_DISPOSABLE_LIST]);
+  return builtinMatcher;
+}
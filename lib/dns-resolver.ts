@@ -0,0 +1,110 @@
+// DNS lookups used by the validation engine. The engine only talks to the
+// DnsResolver interface, so the same code runs against real DNS on the server
+// and against fixture zones in tests.
+
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
+export type DnsErrorCode = 'NXDOMAIN' | 'NODATA' | 'TIMEOUT' | 'SERVFAIL';
+
+export interface DnsError extends Error {
+  code: DnsErrorCode;
+  hostname: string;
+}
+
+export interface DnsResolver {
+  resolveMx(domain: string): Promise<MxRecord[]>;
+  resolve4(hostname: string): Promise<string[]>;
+  resolve6(hostname: string): Promise<string[]>;
+  // Each record is returned as its character-strings, as in a DNS answer
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+export function createDnsError(code: DnsErrorCode, hostname: string): DnsError {
+  const error = new Error(`DNS lookup for ${hostname} failed: ${code}`) as DnsError;
+  error.name = 'DnsError';
+  error.code = code;
+  error.hostname = hostname;
+  return error;
+}
+
+export function isDnsError(error: unknown): error is DnsError {
+  return error instanceof Error && error.name === 'DnsError';
+}
+
+// A fixture zone for the in-memory resolver. Omitted record types answer
+// NODATA; `error` makes every lookup for the name fail with that code.
+export interface DnsZone {
+  mx?: MxRecord[];
+  a?: string[];
+  aaaa?: string[];
+  txt?: string[];
+  error?: DnsErrorCode;
+}
+
+// In-memory resolver backed by fixture zones keyed by domain name. Names
+// without a zone answer NXDOMAIN, like an unregistered domain would.
+export function createMemoryDnsResolver(zones: Record<string, DnsZone>): DnsResolver {
+  const lookup = (hostname: string): DnsZone => {
+    const zone = zones[hostname.toLowerCase().replace(/\.$/, '')];
+    if (!zone) throw createDnsError('NXDOMAIN', hostname);
+    if (zone.error) throw createDnsError(zone.error, hostname);
+    return zone;
+  };
+
+  return {
+    async resolveMx(domain) {
+      const { mx } = lookup(domain);
+      if (!mx || mx.length === 0) throw createDnsError('NODATA', domain);
+      return mx.map(record => ({ ...record }));
+    },
+    async resolve4(hostname) {
+      const { a } = lookup(hostname);
+      if (!a || a.length === 0) throw createDnsError('NODATA', hostname);
+      return a.slice();
+    },
+    async resolve6(hostname) {
+      const { aaaa } = lookup(hostname);
+      if (!aaaa || aaaa.length === 0) throw createDnsError('NODATA', hostname);
+      return aaaa.slice();
+    },
+    async resolveTxt(hostname) {
+      const { txt } = lookup(hostname);
+      if (!txt || txt.length === 0) throw createDnsError('NODATA', hostname);
+      return txt.map(record => [record]);
+    }
+  };
+}
+
+// Remembers definitive answers (records, NXDOMAIN, NODATA) for the
+// resolver's lifetime. Meant for one batch: addresses at the same domain then
+// share their MX, A/AAAA and TXT lookups instead of repeating them. Timeouts
+// and server failures are forgotten once they settle, so the next address
+// at the domain retries the lookup.
+export function createCachingDnsResolver(resolver: DnsResolver): DnsResolver {
+  const answers = new Map<string, Promise<unknown>>();
+
+  const cached = <T>(type: string, hostname: string, lookup: () => Promise<T>): Promise<T> => {
+    const key = `${type} ${hostname.toLowerCase().replace(/\.$/, '')}`;
+    let answer = answers.get(key) as Promise<T> | undefined;
+    if (!answer) {
+      const pending = lookup();
+      answers.set(key, pending);
+      pending.catch(error => {
+        const definitive = isDnsError(error) && (error.code === 'NXDOMAIN' || error.code === 'NODATA');
+        if (!definitive && answers.get(key) === pending) answers.delete(key);
+      });
+      answer = pending;
+    }
+    return answer;
+  };
+
+  return {
+    resolveMx: domain => cached('MX', domain, () => resolver.resolveMx(domain)),
+    resolve4: hostname => cached('A', hostname, () => resolver.resolve4(hostname)),
+    resolve6: hostname => cached('AAAA', hostname, () => resolver.resolve6(hostname)),
+    resolveTxt: hostname => cached('TXT', hostname, () => resolver.resolveTxt(hostname))
+  };
+}
@@ -0,0 +1,122 @@
+import { isValidIPv4, isValidIPv6 } from '@/lib/address-parser';
+import { DnsResolver, isDnsError, MxRecord } from '@/lib/dns-resolver';
+
+// DNS blocklist (DNSBL) reputation. IP lists are queried with the reversed
+// address under the list's zone (192.0.2.1 -> 1.2.0.192.zen.spamhaus.org),
+// domain lists with the domain itself (example.com.dbl.spamhaus.org). An A
+// record in 127.0.0.0/8 means listed; NXDOMAIN means not listed.
+
+export interface DnsblList {
+  zone: string;
+  kind: 'ip' | 'domain';
+}
+
+export interface DnsblListing {
+  zone: string;
+  // The MX address or domain that is listed
+  target: string;
+  // MX host the address belongs to, for IP lists
+  host: string | null;
+  // Return code(s), which encode the listing reason on most lists
+  codes: string[];
+}
+
+export interface DnsblReport {
+  listings: DnsblListing[];
+  queries: number;
+  // Queries that timed out or were refused by the list
+  failures: number;
+}
+
+export const DEFAULT_DNSBL_LISTS: DnsblList[] = [
+  { zone: 'zen.spamhaus.org', kind: 'ip' },
+  { zone: 'bl.spamcop.net', kind: 'ip' },
+  { zone: 'b.barracudacentral.org', kind: 'ip' },
+  { zone: 'dbl.spamhaus.org', kind: 'domain' },
+  { zone: 'multi.surbl.org', kind: 'domain' }
+];
+
+// Only the most preferred hosts are looked up; backups rarely matter
+const MAX_MX_HOSTS = 3;
+
+// "1.2.0.192" for 192.0.2.1; IPv6 addresses become 32 reversed nibbles
+export function reverseIp(ip: string): string | null {
+  if (isValidIPv4(ip)) return ip.split('.').reverse().join('.');
+  if (!isValidIPv6(ip) || ip.indexOf('.') !== -1) return null;
+
+  const halves = ip.split('::');
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const zeros: string[] = [];
+  for (let i = head.length + tail.length; i < 8; i++) zeros.push('0');
+
+  return head.concat(zeros, tail)
+    .map(group => ('0000' + group).slice(-4))
+    .join('')
+    .split('')
+    .reverse()
+    .join('.');
+}
+
+// Lists answer 127.255.255.x (Spamhaus) or similar when they refuse a query,
+// e.g. one sent through a public resolver. That is not a listing.
+function isListingCode(code: string): boolean {
+  return /^127\./.test(code) && !/^127\.255\.255\./.test(code);
+}
+
+type QueryOutcome = { listed: true; codes: string[] } | { listed: false; failed: boolean };
+
+async function query(resolver: DnsResolver, hostname: string): Promise<QueryOutcome> {
+  try {
+    const codes = await resolver.resolve4(hostname);
+    if (codes.some(isListingCode)) return { listed: true, codes: codes.filter(isListingCode) };
+    return { listed: false, failed: codes.length > 0 };
+  } catch (error) {
+    if (!isDnsError(error)) throw error;
+    return { listed: false, failed: error.code === 'TIMEOUT' || error.code === 'SERVFAIL' };
+  }
+}
+
+async function resolveHostAddresses(resolver: DnsResolver, host: string): Promise<string[]> {
+  if (isValidIPv4(host) || isValidIPv6(host)) return [host];
+  const lookups = await Promise.all([resolver.resolve4(host), resolver.resolve6(host)].map(lookup =>
+    lookup.catch(error => {
+      if (isDnsError(error)) return [] as string[];
+      throw error;
+    })
+  ));
+  return lookups[0].concat(lookups[1]);
+}
+
+export async function checkDnsbl(
+  domain: string,
+  mxRecords: MxRecord[],
+  resolver: DnsResolver,
+  lists: DnsblList[] = DEFAULT_DNSBL_LISTS
+): Promise<DnsblReport> {
+  const ipLists = lists.filter(list => list.kind === 'ip');
+  const domainLists = lists.filter(list => list.kind === 'domain');
+
+  const hosts = ipLists.length > 0 ? mxRecords.slice(0, MAX_MX_HOSTS).map(record => record.exchange) : [];
+  const addresses = await Promise.all(hosts.map(host => resolveHostAddresses(resolver, host)));
+
+  const targets: Array<{ zone: string; target: string; host: string | null; name: string }> = [];
+  hosts.forEach((host, index) => {
+    addresses[index].forEach(ip => {
+      const reversed = reverseIp(ip);
+      if (!reversed) return;
+      ipLists.forEach(list => targets.push({ zone: list.zone, target: ip, host, name: `${reversed}.${list.zone}` }));
+    });
+  });
+  domainLists.forEach(list => targets.push({ zone: list.zone, target: domain, host: null, name: `${domain}.${list.zone}` }));
+
+  const outcomes = await Promise.all(targets.map(target => query(resolver, target.name)));
+
+  const report: DnsblReport = { listings: [], queries: targets.length, failures: 0 };
+  outcomes.forEach((outcome, index) => {
+    const { zone, target, host } = targets[index];
+    if (outcome.listed) report.listings.push({ zone, target, host, codes: outcome.codes });
+    else if (outcome.failed) report.failures++;
+  });
+  return report;
+}
@@ -0,0 +1,170 @@
+import { DnsResolver, isDnsError } from '@/lib/dns-resolver';
+
+// Mail-authentication posture of a domain: its SPF, DMARC, MTA-STS and
+// TLS-RPT TXT records, each parsed and graded. A domain that sends real mail
+// almost always has SPF and DMARC; one with neither, or with broken records,
+// is often parked or abandoned.
+//
+// good:    present and enforcing
+// weak:    present but permissive (e.g. "?all", "p=none")
+// missing: no record published
+// invalid: published but unusable (syntax errors, duplicates)
+// unknown: the lookup failed
+
+export type HealthGrade = 'good' | 'weak' | 'missing' | 'invalid' | 'unknown';
+
+export interface PolicyReport {
+  grade: HealthGrade;
+  record: string | null;
+  // What made the record weak or invalid
+  issues: string[];
+}
+
+export interface DomainHealthReport {
+  spf: PolicyReport;
+  dmarc: PolicyReport;
+  mtaSts: PolicyReport;
+  tlsRpt: PolicyReport;
+}
+
+// RFC 7208 section 4.6.4
+const SPF_LOOKUP_LIMIT = 10;
+
+const SPF_MECHANISMS = ['all', 'include', 'a', 'mx', 'ptr', 'ip4', 'ip6', 'exists'];
+const SPF_LOOKUP_TERMS = ['include', 'a', 'mx', 'ptr', 'exists', 'redirect'];
+
+const MISSING: PolicyReport = { grade: 'missing', record: null, issues: [] };
+const UNKNOWN: PolicyReport = { grade: 'unknown', record: null, issues: [] };
+
+function report(record: string, issues: string[], weak: string[] = []): PolicyReport {
+  if (issues.length > 0) return { grade: 'invalid', record, issues };
+  if (weak.length > 0) return { grade: 'weak', record, issues: weak };
+  return { grade: 'good', record, issues: [] };
+}
+
+// "v=DMARC1; p=reject; rua=mailto:x" -> { v: 'DMARC1', p: 'reject', rua: 'mailto:x' }
+function parseTags(record: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  record.split(';').forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq === -1) return;
+    tags[part.slice(0, eq).trim().toLowerCase()] = part.slice(eq + 1).trim();
+  });
+  return tags;
+}
+
+export function gradeSpf(record: string): PolicyReport {
+  const issues: string[] = [];
+  const weak: string[] = [];
+  const terms = record.trim().split(/\s+/).slice(1);
+  let lookups = 0;
+  let all: string | null = null;
+  let redirect = false;
+
+  terms.forEach(term => {
+    const modifier = term.match(/^([a-z][a-z0-9_.-]*)=/i);
+    if (modifier) {
+      const name = modifier[1].toLowerCase();
+      if (name === 'redirect') redirect = true;
+      if (SPF_LOOKUP_TERMS.indexOf(name) !== -1) lookups++;
+      return;
+    }
+
+    const match = term.match(/^([+?~-]?)([a-z0-9]+)([:/].*)?$/i);
+    const mechanism = match?.[2].toLowerCase();
+    if (!match || !mechanism || SPF_MECHANISMS.indexOf(mechanism) === -1) {
+      issues.push(`Unknown term "${term}"`);
+      return;
+    }
+    if (SPF_LOOKUP_TERMS.indexOf(mechanism) !== -1) lookups++;
+    if (mechanism === 'all') all = match[1] || '+';
+  });
+
+  if (lookups > SPF_LOOKUP_LIMIT) issues.push(`More than ${SPF_LOOKUP_LIMIT} DNS lookups`);
+  if (all === '+') weak.push('"+all" lets any server send for the domain');
+  else if (all === '?') weak.push('"?all" does not reject unauthorized senders');
+  else if (all === null && !redirect) weak.push('No "all" mechanism');
+
+  return report(record, issues, weak);
+}
+
+export function gradeDmarc(record: string): PolicyReport {
+  const tags = parseTags(record);
+  const issues: string[] = [];
+  const weak: string[] = [];
+
+  const policy = tags.p?.toLowerCase();
+  if (!policy) issues.push('Missing required "p" tag');
+  else if (['none', 'quarantine', 'reject'].indexOf(policy) === -1) issues.push(`Unknown policy "${tags.p}"`);
+  else if (policy === 'none') weak.push('"p=none" only monitors');
+
+  if (tags.pct !== undefined) {
+    const pct = Number(tags.pct);
+    if (!/^\d{1,3}$/.test(tags.pct) || pct > 100) issues.push(`Invalid "pct" value "${tags.pct}"`);
+    else if (pct < 100) weak.push(`Policy applies to ${pct}% of mail`);
+  }
+
+  return report(record, issues, weak);
+}
+
+export function gradeMtaSts(record: string): PolicyReport {
+  const { id } = parseTags(record);
+  // The policy file itself lives on https://mta-sts.<domain>/ and is not fetched
+  return report(record, id && /^[A-Za-z0-9]{1,32}$/.test(id) ? [] : ['Missing or malformed "id" tag']);
+}
+
+export function gradeTlsRpt(record: string): PolicyReport {
+  const { rua } = parseTags(record);
+  const valid = !!rua && rua.split(',').every(uri => /^(mailto:|https:)/i.test(uri.trim()));
+  return report(record, valid ? [] : ['Missing or malformed "rua" tag']);
+}
+
+// "v=spf1 ..." but not "v=spf10"
+function hasVersion(record: string, version: string): boolean {
+  return record.slice(0, version.length).toLowerCase() === version.toLowerCase()
+    && /^(\s|;|$)/.test(record.slice(version.length));
+}
+
+// Fetch the TXT records at `hostname` starting with `version` (e.g. "v=spf1")
+// and grade the one found. More than one is an error for every record type.
+async function lookupPolicy(
+  resolver: DnsResolver,
+  hostname: string,
+  version: string,
+  grade: (record: string) => PolicyReport
+): Promise<PolicyReport> {
+  let records: string[];
+  try {
+    records = (await resolver.resolveTxt(hostname))
+      .map(chunks => chunks.join(''))
+      .filter(record => hasVersion(record, version));
+  } catch (error) {
+    if (!isDnsError(error)) throw error;
+    return error.code === 'NXDOMAIN' || error.code === 'NODATA' ? MISSING : UNKNOWN;
+  }
+
+  if (records.length === 0) return MISSING;
+  if (records.length > 1) return { grade: 'invalid', record: records[0], issues: [`${records.length} records published`] };
+  return grade(records[0]);
+}
+
+export async function checkDomainHealth(domain: string, resolver: DnsResolver): Promise<DomainHealthReport> {
+  const [spf, dmarc, mtaSts, tlsRpt] = await Promise.all([
+    lookupPolicy(resolver, domain, 'v=spf1', gradeSpf),
+    lookupPolicy(resolver, `_dmarc.${domain}`, 'v=DMARC1', gradeDmarc),
+    lookupPolicy(resolver, `_mta-sts.${domain}`, 'v=STSv1', gradeMtaSts),
+    lookupPolicy(resolver, `_smtp._tls.${domain}`, 'v=TLSRPTv1', gradeTlsRpt)
+  ]);
+  return { spf, dmarc, mtaSts, tlsRpt };
+}
+
+// Summary verdict for the validation layer: SPF and DMARC are what separate
+// a live sending domain from a parked one; MTA-STS and TLS-RPT are reported
+// but optional
+export function domainHealthStatus(report: DomainHealthReport): 'pass' | 'missing' | 'invalid' | 'unknown' {
+  const core = [report.spf, report.dmarc];
+  if (core.some(policy => policy.grade === 'invalid')) return 'invalid';
+  if (core.some(policy => policy.grade === 'missing')) return 'missing';
+  if (core.some(policy => policy.grade === 'unknown')) return 'unknown';
+  return 'pass';
+}
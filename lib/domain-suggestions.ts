@@ -0,0 +1,199 @@
+// "Did you mean" suggestions for mistyped domains such as gmial.com,
+// hotmial.com or yaho.co. The domain is compared with popular mailbox
+// providers first, then its TLD with common TLDs.
+
+// Ordered by popularity: on equal distance the earlier entry wins
+export const POPULAR_DOMAINS = [
+  'gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'icloud.com',
+  'aol.com', 'live.com', 'msn.com', 'googlemail.com', 'me.com', 'mac.com',
+  'protonmail.com', 'proton.me', 'zoho.com', 'mail.com', 'gmx.com', 'gmx.de',
+  'gmx.net', 'web.de', 't-online.de', 'yandex.ru', 'mail.ru', 'qq.com',
+  '163.com', '126.com', 'naver.com', 'comcast.net', 'verizon.net', 'att.net',
+  'sbcglobal.net', 'bellsouth.net', 'cox.net', 'charter.net', 'earthlink.net',
+  'yahoo.co.uk', 'yahoo.co.in', 'yahoo.fr', 'yahoo.de', 'yahoo.ca',
+  'hotmail.co.uk', 'hotmail.fr', 'hotmail.de', 'hotmail.it', 'outlook.fr',
+  'live.co.uk', 'btinternet.com', 'orange.fr', 'free.fr', 'laposte.net',
+  'libero.it', 'virgilio.it', 'rediffmail.com', 'rocketmail.com', 'ymail.com'
+];
+
+// Further domains the providers above run under their own name, mostly
+// country editions. Typing one is not a slip on a listed domain.
+const PROVIDER_COUNTRY_DOMAINS: Record<string, string[]> = {
+  yahoo: [
+    'com.au', 'com.br', 'com.ar', 'com.mx', 'com.sg', 'com.ph', 'com.hk', 'com.tw', 'com.vn',
+    'co.jp', 'co.id', 'co.nz', 'co.za', 'es', 'it', 'ie', 'gr', 'se', 'dk', 'no', 'fi', 'pl',
+    'ro', 'at', 'be', 'nl', 'ch', 'in', 'cn'
+  ],
+  hotmail: [
+    'es', 'ca', 'com.au', 'com.br', 'com.ar', 'com.mx', 'com.tr', 'co.jp', 'co.za', 'co.th',
+    'co.nz', 'nl', 'be', 'se', 'dk', 'no', 'fi', 'gr', 'ch', 'at', 'ie', 'cl', 'hu', 'sk', 'cz', 'my', 'sg'
+  ],
+  outlook: [
+    'de', 'es', 'it', 'jp', 'com.br', 'com.ar', 'com.au', 'com.gr', 'com.tr', 'com.vn', 'co.id',
+    'co.il', 'co.nz', 'co.th', 'cl', 'dk', 'hu', 'ie', 'in', 'kr', 'lv', 'my', 'ph', 'pt', 'sa',
+    'sg', 'sk', 'at', 'be', 'cz'
+  ],
+  live: [
+    'fr', 'de', 'it', 'nl', 'ca', 'com.au', 'com.ar', 'com.mx', 'com.pt', 'be', 'se', 'dk', 'no',
+    'at', 'ch', 'ie', 'cl', 'jp', 'in', 'co.za', 'ru'
+  ],
+  aol: ['co.uk', 'de', 'fr', 'it'],
+  gmx: ['at', 'ch', 'fr', 'es', 'us', 'co.uk', 'it'],
+  yandex: ['com', 'ua', 'by', 'kz', 'com.tr'],
+  zoho: ['eu', 'in'],
+  protonmail: ['ch'],
+  mail: ['ru']
+};
+
+export const POPULAR_TLDS = [
+  'com', 'net', 'org', 'edu', 'gov', 'info', 'biz', 'io', 'co', 'me', 'us',
+  'uk', 'ca', 'de', 'fr', 'it', 'es', 'nl', 'be', 'ch', 'at', 'se', 'au',
+  'in', 'jp', 'br', 'ru', 'cn'
+];
+
+// Generic TLDs we accept as-is; any two-letter TLD is taken as a country code
+const KNOWN_GENERIC_TLDS = [
+  'com', 'net', 'org', 'edu', 'gov', 'mil', 'int', 'info', 'biz', 'name',
+  'pro', 'mobi', 'app', 'dev', 'tech', 'online', 'site', 'store', 'shop',
+  'xyz', 'club', 'live', 'email', 'cloud', 'agency', 'company', 'digital',
+  'global', 'group', 'media', 'network', 'solutions', 'systems', 'team',
+  'website', 'world', 'studio', 'design', 'blog', 'news', 'ai', 'aero',
+  'asia', 'cat', 'coop', 'jobs', 'museum', 'post', 'tel', 'travel'
+];
+
+const KEYBOARD_ROWS = ['1234567890-', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+// Keys that sit next to each other on a QWERTY layout
+const ADJACENT_KEYS: Record<string, string> = (() => {
+  const neighbours: Record<string, string> = {};
+  KEYBOARD_ROWS.forEach((row, rowIndex) => {
+    row.split('').forEach((key, column) => {
+      let adjacent = (row[column - 1] || '') + (row[column + 1] || '');
+      [KEYBOARD_ROWS[rowIndex - 1], KEYBOARD_ROWS[rowIndex + 1]].forEach(other => {
+        if (other) adjacent += other.slice(Math.max(0, column - 1), column + 2);
+      });
+      neighbours[key] = adjacent;
+    });
+  });
+  return neighbours;
+})();
+
+// Hitting a neighbouring key is the most common slip, so it costs less than
+// an arbitrary substitution
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  return ADJACENT_KEYS[a]?.indexOf(b) >= 0 ? 0.5 : 1;
+}
+
+// Damerau-Levenshtein (optimal string alignment) distance with keyboard-aware
+// substitution costs
+export function typoDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const columns = b.length + 1;
+  const d: number[][] = [];
+
+  for (let i = 0; i < rows; i++) {
+    d.push([i]);
+    for (let j = 1; j < columns; j++) d[i].push(i === 0 ? j : 0);
+  }
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < columns; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + substitutionCost(a[i - 1], b[j - 1])
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[rows - 1][columns - 1];
+}
+
+function closest(value: string, candidates: string[], maxDistance: number): string | null {
+  let best: string | null = null;
+  let bestDistance = maxDistance;
+
+  for (const candidate of candidates) {
+    const distance = typoDistance(value, candidate);
+    if (distance > 0 && distance <= bestDistance && (best === null || distance < bestDistance)) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+function isKnownTld(tld: string): boolean {
+  return /^[a-z]{2}$/.test(tld) || KNOWN_GENERIC_TLDS.indexOf(tld) !== -1 || tld.startsWith('xn--');
+}
+
+// How far a typed provider name may stray from the real one. Short names
+// get less slack so that e.g. "acme.com" is not "corrected" to "me.com".
+function nameBudget(name: string): number {
+  if (name.length <= 3) return 0.5;
+  if (name.length <= 5) return 1;
+  return 2;
+}
+
+function splitDomain(domain: string): { name: string; suffix: string } {
+  const dot = domain.indexOf('.');
+  return dot === -1
+    ? { name: domain, suffix: '' }
+    : { name: domain.slice(0, dot), suffix: domain.slice(dot + 1) };
+}
+
+function operatesDomain(name: string, suffix: string): boolean {
+  return POPULAR_DOMAINS.indexOf(`${name}.${suffix}`) !== -1
+    || (PROVIDER_COUNTRY_DOMAINS[name] || []).indexOf(suffix) !== -1;
+}
+
+// A provider's own name under one of its country domains (outlook.de,
+// yahoo.es) is left alone; under any other suffix (gmail.co, gmail.con) it
+// is corrected to the closest listed domain.
+function closestProvider(domain: string): string | null {
+  const typed = splitDomain(domain);
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const provider of POPULAR_DOMAINS) {
+    const { name, suffix } = splitDomain(provider);
+    const nameDistance = typoDistance(typed.name, name);
+    if (nameDistance === 0 && operatesDomain(name, typed.suffix)) return null;
+    const suffixDistance = typoDistance(typed.suffix, suffix);
+    const distance = nameDistance + suffixDistance;
+
+    if (nameDistance <= nameBudget(name) && suffixDistance <= 1 && distance < bestDistance) {
+      best = provider;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+// Suggest a correction for a domain, or null when it looks right
+export function suggestDomain(domain: string): string | null {
+  const normalized = domain.toLowerCase().replace(/\.$/, '');
+  if (POPULAR_DOMAINS.indexOf(normalized) !== -1) return null;
+
+  // A missing dot ("gmailcom") defeats the name/suffix split
+  const provider = normalized.indexOf('.') === -1
+    ? closest(normalized, POPULAR_DOMAINS, 1)
+    : closestProvider(normalized);
+  if (provider) return provider;
+
+  // Fall back to fixing just the TLD: example.con -> example.com
+  const labels = normalized.split('.');
+  const tld = labels[labels.length - 1];
+  if (labels.length < 2 || isKnownTld(tld)) return null;
+
+  const suggestedTld = closest(tld, POPULAR_TLDS, 1);
+  if (suggestedTld) return labels.slice(0, -1).concat(suggestedTld).join('.');
+
+  return null;
+}
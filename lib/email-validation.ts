@@ -1,214 +1,232 @@
-import { z } from 'zod';
-
-// Comprehensive email validation schema using Zod
-export const emailSchema = z.string().email({
-  message: "Please enter a valid email address"
-});
-
-// Enhanced email validation function
-export function validateEmailSyntax(email: string): boolean {
-  try {
-    emailSchema.parse(email);
-    return true;
-  } catch {
-    return false;
-  }
+import { AddressParseMode, ParsedAddress, parseAddress } from '@/lib/address-parser';
+import type { BounceRecord } from '@/lib/bounces';
+import { CheckContext, CHECKS, runChecks, ValidationOptions } from '@/lib/checks';
+import { splitEmail } from '@/lib/checks/helpers';
+import { DisposableMatcher, getBuiltinDisposableMatcher } from '@/lib/disposable-domains';
+import { suggestDomain } from '@/lib/domain-suggestions';
+import { DEFAULT_GIBBERISH_THRESHOLD, scoreGibberish } from '@/lib/gibberish';
+import { toAsciiDomain } from '@/lib/idn';
+import { normalizeEmail } from '@/lib/normalize-email';
+import type { OverrideRule } from '@/lib/overrides';
+import { explainEmailScore } from '@/lib/score-breakdown';
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from '@/lib/scoring-profiles';
+import {
+  DEFAULT_HISTORY_WINDOW_MS,
+  historyKey,
+  HistoryVerdict,
+  UNSETTLED_HISTORY_WINDOW_MS,
+  UNSETTLED_REASONS
+} from '@/lib/validation-history';
+import {
+  CheckResult,
+  EmailChecks,
+  EmailStatus,
+  EmailValidationResult,
+  unverifiedResult
+} from '@/lib/validation-result';
+
+export type { ValidationOptions } from '@/lib/checks';
+export type { MxLookup } from '@/lib/checks/mx';
+export type {
+  CheckReason,
+  CheckResult,
+  CheckStatus,
+  EmailChecks,
+  EmailStatus,
+  EmailValidationResult,
+  MxOutcome,
+  ScoreBreakdownItem
+} from '@/lib/validation-result';
+
+export { bounceCheckFromRecord } from '@/lib/checks/bounces';
+export { catchAllCheckFromVerdict } from '@/lib/checks/catch-all';
+export { validateDomain } from '@/lib/checks/domain';
+export { domainHealthCheckFromReport } from '@/lib/checks/domain-health';
+export { lookupMxRecords } from '@/lib/checks/mx';
+export { reputationCheckFromReport } from '@/lib/checks/reputation';
+export { isRoleBasedEmail } from '@/lib/checks/role-based';
+export { smtpCheckFromProbe } from '@/lib/checks/smtp';
+
+// Syntax check backed by the RFC 5321/5322 address parser
+export function validateEmailSyntax(email: string, mode: AddressParseMode = 'strict'): boolean {
+  return parseAddress(email, mode).ok;
 }
 
-// More comprehensive RFC 5322 compliant email regex
-export const RFC5322_EMAIL_REGEX = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
-
-// Domain validation function
-export function validateDomain(email: string): boolean {
-  if (!email.includes('@')) return false;
-  
-  const domain = email.split('@')[1];
-  if (!domain) return false;
-  
-  // Check domain format
-  const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
-  if (!domainRegex.test(domain)) return false;
-  
-  // Check for valid TLD
-  const parts = domain.split('.');
-  const tld = parts[parts.length - 1];
-  return tld.length >= 2 && /^[a-zA-Z]+$/.test(tld);
+// Check if email is from a disposable email provider, including subdomains
+// of listed providers
+export function isDisposableEmail(
+  email: string,
+  matcher: DisposableMatcher = getBuiltinDisposableMatcher()
+): boolean {
+  const domain = toAsciiDomain(splitEmail(email).domain);
+  return !!domain && matcher.match(domain) !== null;
 }
 
-// Check if email is from a disposable email provider
-export function isDisposableEmail(email: string): boolean {
-  const domain = email.split('@')[1]?.toLowerCase();
-  if (!domain) return false;
-  
-  const disposableDomains = [
-    '10minutemail.com', 'guerrillamail.com', 'mailinator.com', 'tempmail.org',
-    'throwaway.email', 'temp-mail.org', 'yopmail.com', 'maildrop.cc',
-    'sharklasers.com', 'guerrillamailblock.com', 'pokemail.net', 'spam4.me',
-    'tempail.com', 'tempmailaddress.com', 'emailondeck.com', 'mohmal.com',
-    'mytrashmail.com', 'mailnesia.com', 'trashmail.com', 'dispostable.com'
-  ];
-  
-  return disposableDomains.includes(domain);
+// Check if the local part looks random or machine-generated ("xk2q9vpl",
+// "asdfasdf"). Lower thresholds flag more addresses.
+export function isGibberishEmail(email: string, threshold: number = DEFAULT_GIBBERISH_THRESHOLD): boolean {
+  return scoreGibberish(splitEmail(email).localPart).score >= threshold;
 }
 
-// Check if email is role-based
-export function isRoleBasedEmail(email: string): boolean {
-  const localPart = email.split('@')[0]?.toLowerCase();
-  if (!localPart) return false;
-  
-  const roleBasedPrefixes = [
-    'admin', 'administrator', 'info', 'support', 'sales', 'contact', 'help',
-    'noreply', 'no-reply', 'webmaster', 'postmaster', 'hostmaster', 'abuse',
-    'security', 'privacy', 'legal', 'billing', 'accounts', 'marketing',
-    'hr', 'careers', 'jobs', 'recruitment', 'press', 'media', 'news'
-  ];
-  
-  return roleBasedPrefixes.some(prefix => 
-    localPart === prefix || localPart.startsWith(prefix + '.') || localPart.startsWith(prefix + '-')
-  );
+// Calculate overall email score (0-100) under a scoring profile
+export function calculateEmailScore(
+  checks: EmailChecks,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number {
+  return explainEmailScore(checks, profile).score;
 }
 
-// Simulate MX record check
-export function simulateMXCheck(domain: string): boolean {
-  // In a real implementation, this would do actual DNS lookup
-  // For simulation, we'll assume most common domains have MX records
-  const commonDomains = [
-    'gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'aol.com',
-    'icloud.com', 'protonmail.com', 'zoho.com', 'mail.com', 'gmx.com'
-  ];
-  
-  // Return true for common domains, random for others
-  if (commonDomains.includes(domain.toLowerCase())) {
-    return true;
+// Determine email status based on score. An address that would score as
+// valid without a mailbox verdict from SMTP is reported as unknown instead.
+// A domain that is malformed, does not exist, or has no mail hosts or a null
+// MX cannot receive mail, whatever the score, and neither can a mailbox its
+// server rejected or an address that has hard-bounced; a recent soft or block
+// bounce keeps an address from counting as valid.
+export function getEmailStatus(
+  score: number,
+  checks?: EmailChecks,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): EmailStatus {
+  if (checks?.domain.reason === 'invalid_domain') return 'invalid';
+  if (checks && ['null_mx', 'domain_not_found', 'mx_not_found'].indexOf(checks.mx.reason) !== -1) return 'invalid';
+  if (checks?.smtp.status === 'fail' && checks.smtp.reason === 'mailbox_not_found') return 'invalid';
+  if (checks?.bounces.reason === 'hard_bounce') return 'invalid';
+  if (score >= profile.thresholds.valid) {
+    if (checks?.bounces.status === 'warning') return 'risky';
+    return checks?.smtp.status === 'unknown' ? 'unknown' : 'valid';
   }
-  
-  // For other domains, simulate 85% success rate
-  return Math.random() > 0.15;
+  if (score >= profile.thresholds.risky) return 'risky';
+  return 'invalid';
 }
 
-// Simulate catch-all detection
-export function simulateCatchAllDetection(domain: string): boolean {
-  // Simulate catch-all detection - some domains are known to have catch-all
-  const catchAllDomains = ['example.com', 'test.com', 'demo.com'];
-  
-  if (catchAllDomains.includes(domain.toLowerCase())) {
-    return true;
-  }
-  
-  // Random simulation for other domains (20% chance)
-  return Math.random() < 0.2;
+// Result for an address a team override settled. Only the syntax is looked
+// at, for display; the score just mirrors the verdict.
+function overriddenResult(email: string, rule: OverrideRule, options: ValidationOptions): EmailValidationResult {
+  const profile = options.scoringProfile ?? DEFAULT_SCORING_PROFILE;
+  const parsed = parseAddress(email, options.syntaxMode ?? 'strict');
+  const syntax: CheckResult = parsed.ok ? { status: 'pass', reason: 'ok' } : { status: 'fail', reason: 'invalid_syntax' };
+  return {
+    ...unverifiedResult(email, profile.id),
+    canonicalEmail: normalizeEmail(email),
+    address: parsed.ok ? parsed.address : null,
+    syntaxError: parsed.ok ? null : parsed.error,
+    syntax,
+    override: rule,
+    score: rule.action === 'valid' ? 100 : 0,
+    status: rule.action,
+    validatedAt: new Date().toISOString()
+  };
 }
 
-// Simulate SMTP mailbox check
-export function simulateSMTPCheck(email: string): boolean {
-  // In a real implementation, this would attempt SMTP connection
-  // For simulation, we'll base it on other factors
-  
-  const domain = email.split('@')[1]?.toLowerCase();
-  if (!domain) return false;
-  
-  // Higher success rate for common email providers
-  const reliableProviders = [
-    'gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'aol.com',
-    'icloud.com', 'protonmail.com', 'zoho.com'
-  ];
-  
-  if (reliableProviders.includes(domain)) {
-    return Math.random() > 0.05; // 95% success rate for reliable providers
-  }
-  
-  // Lower success rate for other domains
-  return Math.random() > 0.3; // 70% success rate for other domains
+// Complete email validation function: runs every registered check (see
+// lib/checks) and scores the results, or serves a recent verdict from
+// history. A suppression list has the last word, over team overrides too.
+export async function validateEmail(email: string, options: ValidationOptions): Promise<EmailValidationResult> {
+  const override = options.overrides?.match(email) ?? null;
+  const result = override ? overriddenResult(email, override, options) : await recordedResult(email, options);
+
+  const suppression = options.suppressions?.match(email) ?? null;
+  if (!suppression) return result;
+  return { ...result, suppression: { ...suppression, verdict: result.status }, status: 'suppressed' };
+}
+
+// Whether every check got a lasting answer, rather than one a server put off
+function isSettled(checks: EmailChecks): boolean {
+  return CHECKS.every(definition => UNSETTLED_REASONS.indexOf(checks[definition.id].reason) === -1);
+}
+
+function historyAge(verdict: HistoryVerdict): number {
+  return Date.now() - Date.parse(verdict.validatedAt);
 }
 
-// Calculate overall email score
-export function calculateEmailScore(validationResults: {
-  syntax: boolean;
-  domain: boolean;
-  mx: boolean;
-  disposable: boolean;
-  roleBased: boolean;
-  catchAll: boolean;
-  smtp: boolean;
-}): number {
-  const weights = {
-    syntax: 20,      // Critical - must have valid syntax
-    domain: 15,      // Important - domain must exist
-    mx: 15,          // Important - must have mail servers
-    disposable: -10, // Negative - disposable emails are bad
-    roleBased: -5,   // Slightly negative - role-based emails are less personal
-    catchAll: -5,    // Slightly negative - catch-all domains are less reliable
-    smtp: 25         // Very important - mailbox must exist
+function suggestionFor(address: ParsedAddress | null): string | null {
+  const suggestedDomain = address && !address.isIpLiteral ? suggestDomain(address.asciiDomain) : null;
+  return address && suggestedDomain ? `${address.localPart}@${suggestedDomain}` : null;
+}
+
+function historyVerdict(result: EmailValidationResult): HistoryVerdict {
+  const checks = {} as EmailChecks;
+  CHECKS.forEach(definition => {
+    checks[definition.id] = result[definition.id];
+  });
+  return {
+    checks,
+    score: result.score,
+    status: result.status,
+    validatedAt: result.validatedAt ?? new Date().toISOString(),
+    bouncedAt: result.bounce?.bouncedAt ?? null
   };
-  
-  let score = 0;
-  
-  if (validationResults.syntax) score += weights.syntax;
-  if (validationResults.domain) score += weights.domain;
-  if (validationResults.mx) score += weights.mx;
-  if (validationResults.disposable) score += weights.disposable;
-  if (validationResults.roleBased) score += weights.roleBased;
-  if (validationResults.catchAll) score += weights.catchAll;
-  if (validationResults.smtp) score += weights.smtp;
-  
-  // Normalize to 0-100 scale
-  const maxPossibleScore = weights.syntax + weights.domain + weights.mx + weights.smtp;
-  const normalizedScore = Math.max(0, Math.min(100, (score / maxPossibleScore) * 100));
-  
-  return Math.round(normalizedScore);
 }
 
-// Determine email status based on score
-export function getEmailStatus(score: number): 'valid' | 'risky' | 'invalid' {
-  if (score >= 75) return 'valid';
-  if (score >= 40) return 'risky';
-  return 'invalid';
+// A verdict served from history, around the address as given this time
+function historyResult(
+  email: string,
+  verdict: HistoryVerdict,
+  bounce: BounceRecord | null,
+  options: ValidationOptions
+): EmailValidationResult {
+  const profile = options.scoringProfile ?? DEFAULT_SCORING_PROFILE;
+  const parsed = parseAddress(email, options.syntaxMode ?? 'strict');
+  const address = parsed.ok ? parsed.address : null;
+  return {
+    ...unverifiedResult(email, profile.id),
+    ...verdict.checks,
+    canonicalEmail: normalizeEmail(email),
+    address,
+    syntaxError: parsed.ok ? null : parsed.error,
+    suggestion: suggestionFor(address),
+    bounce,
+    score: verdict.score,
+    status: verdict.status,
+    breakdown: explainEmailScore(verdict.checks, profile).breakdown,
+    validatedAt: verdict.validatedAt,
+    cached: true
+  };
 }
 
-// Complete email validation function
-export async function validateEmail(email: string) {
-  const syntax = validateEmailSyntax(email);
-  
-  if (!syntax) {
-    return {
-      email,
-      syntax: false,
-      domain: false,
-      mx: false,
-      disposable: false,
-      roleBased: false,
-      catchAll: false,
-      smtp: false,
-      score: 0,
-      status: 'invalid' as const
-    };
+// History is a cache: when it fails, the checks just run. A verdict that
+// predates the address's latest bounce is stale, and so is an unsettled one
+// after a few minutes.
+async function recordedResult(email: string, options: ValidationOptions): Promise<EmailValidationResult> {
+  const { history } = options;
+  if (!history) return checkedResult(email, options);
+
+  const profile = options.scoringProfile ?? DEFAULT_SCORING_PROFILE;
+  const key = historyKey(email, options.syntaxMode ?? 'strict');
+  if (!options.refresh) {
+    const windowMs = options.historyWindowMs ?? DEFAULT_HISTORY_WINDOW_MS;
+    const previous = await history.lookup(key, profile.id, windowMs).catch(() => null);
+    const bounce = options.bounceHistory?.lookup(email) ?? null;
+    if (
+      previous &&
+      previous.bouncedAt === (bounce?.bouncedAt ?? null) &&
+      (isSettled(previous.checks) || historyAge(previous) <= Math.min(windowMs, UNSETTLED_HISTORY_WINDOW_MS))
+    ) {
+      return historyResult(email, previous, bounce, options);
+    }
   }
-  
-  const domain = email.split('@')[1];
-  const domainValid = validateDomain(email);
-  const mx = domainValid ? simulateMXCheck(domain) : false;
-  const disposable = isDisposableEmail(email);
-  const roleBased = isRoleBasedEmail(email);
-  const catchAll = domainValid ? simulateCatchAllDetection(domain) : false;
-  const smtp = mx && !disposable ? simulateSMTPCheck(email) : false;
-  
-  const validationResults = {
-    syntax,
-    domain: domainValid,
-    mx,
-    disposable,
-    roleBased,
-    catchAll,
-    smtp
-  };
-  
-  const score = calculateEmailScore(validationResults);
-  const status = getEmailStatus(score);
-  
+
+  const result = await checkedResult(email, options);
+  await history.record(key, profile.id, historyVerdict(result)).catch(() => undefined);
+  return result;
+}
+
+async function checkedResult(email: string, options: ValidationOptions): Promise<EmailValidationResult> {
+  const profile = options.scoringProfile ?? DEFAULT_SCORING_PROFILE;
+  const context: CheckContext = { email, options, results: {}, details: {} };
+  const checks = await runChecks(context);
+
+  const { score, breakdown } = explainEmailScore(checks, profile);
+
   return {
-    email,
-    ...validationResults,
+    ...unverifiedResult(email, profile.id),
+    ...context.details,
+    ...checks,
+    canonicalEmail: normalizeEmail(email),
+    suggestion: suggestionFor(context.details.address ?? null),
     score,
-    status
+    status: getEmailStatus(score, checks, profile),
+    breakdown,
+    validatedAt: new Date().toISOString()
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,20 @@
+import providerDataset from '@/lib/data/free-providers.json';
+
+// Free webmail providers (gmail.com, web.de, qq.com, yandex.ru, ...). An
+// address at one of these is personal rather than a business mailbox. The
+// dataset excludes disposable domains, which have their own check.
+
+export interface FreeProviderList {
+  version: string;
+  source: string;
+  domains: string[];
+}
+
+export const FREE_PROVIDER_LIST: FreeProviderList = providerDataset;
+
+let providers: Set<string> | null = null;
+
+export function isFreeProvider(domain: string): boolean {
+  if (!providers) providers = new Set(FREE_PROVIDER_LIST.domains);
+  return providers.has(domain.trim().toLowerCase().replace(/\.$/, ''));
+}
@@ -0,0 +1,80 @@
+// Heuristic for junk local parts such as "xk2q9vpl" or "asdfasdf": mailboxes
+// that exist but were typed to get past a signup form. Each signal scores
+// 0-1 and the strongest one wins, so the result explains itself.
+
+export const DEFAULT_GIBBERISH_THRESHOLD = 0.7;
+
+export type GibberishSignal = 'keyboard_run' | 'repeated_chunk' | 'consonant_run' | 'few_vowels' | 'digit_mix';
+
+export interface GibberishScore {
+  score: number;
+  signal: GibberishSignal | null;
+}
+
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+// Shorter local parts ("jo", "abc") carry too little signal to judge
+const MIN_LENGTH = 5;
+
+// Longest stretch that follows a keyboard row in either direction
+function longestKeyboardRun(value: string): number {
+  let longest = 0;
+  KEYBOARD_ROWS.forEach(row => {
+    const reversed = row.split('').reverse().join('');
+    [row, reversed].forEach(line => {
+      for (let start = 0; start < value.length; start++) {
+        const position = line.indexOf(value[start]);
+        if (position === -1) continue;
+        let length = 0;
+        while (start + length < value.length && line[position + length] === value[start + length]) length++;
+        longest = Math.max(longest, length);
+      }
+    });
+  });
+  return longest;
+}
+
+// "asdfasdf", "abcabcabc"
+function isRepeatedChunk(value: string): boolean {
+  return /^(.{2,})\1+$/.test(value);
+}
+
+function longestConsonantRun(value: string): number {
+  const runs = value.match(/[bcdfghjklmnpqrstvwxz]+/g) || [];
+  return runs.reduce((longest, run) => Math.max(longest, run.length), 0);
+}
+
+// Letter/digit switches: "xk2q9vpl" has four, "john1985" one
+function letterDigitSwitches(value: string): number {
+  let switches = 0;
+  for (let i = 1; i < value.length; i++) {
+    if (/\d/.test(value[i]) !== /\d/.test(value[i - 1])) switches++;
+  }
+  return switches;
+}
+
+export function scoreGibberish(localPart: string): GibberishScore {
+  // Judge the mailbox name without +tags, separators or quotes
+  const value = localPart.replace(/^"|"$/g, '').split('+')[0].toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (value.length < MIN_LENGTH) return { score: 0, signal: null };
+
+  const letters = value.replace(/\d/g, '');
+  const vowels = letters.replace(/[^aeiouy]/g, '').length;
+  const consonantRun = longestConsonantRun(letters);
+  const keyboardRun = longestKeyboardRun(value);
+  const switches = letterDigitSwitches(value);
+
+  const signals: Array<[GibberishSignal, number]> = [
+    ['repeated_chunk', isRepeatedChunk(value) ? 1 : 0],
+    ['keyboard_run', keyboardRun >= 4 ? Math.min(1, (keyboardRun - 1) / 4) : 0],
+    // Real names reach five ("engstrom", "strengths"), rarely more
+    ['consonant_run', consonantRun >= 7 ? 1 : consonantRun === 6 ? 0.9 : consonantRun === 5 ? 0.6 : 0],
+    ['few_vowels', letters.length >= 6 ? Math.max(0, 1 - (vowels / letters.length) / 0.2) : 0],
+    ['digit_mix', switches >= 4 ? 1 : switches === 3 ? 0.8 : switches === 2 ? 0.5 : 0]
+  ];
+
+  return signals.reduce<GibberishScore>(
+    (best, [signal, score]) => (score > best.score ? { score, signal } : best),
+    { score: 0, signal: null }
+  );
+}
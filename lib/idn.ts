@@ -0,0 +1,99 @@
+// Internationalized domain names. DNS and SMTP need the ASCII (punycode)
+// form; people should see the Unicode form.
+
+const ACE_PREFIX = 'xn--';
+
+// RFC 3492 parameters
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+
+export function isAscii(value: string): boolean {
+  return /^[\x00-\x7f]*$/.test(value);
+}
+
+function adapt(delta: number, numPoints: number, firstTime: boolean): number {
+  let k = 0;
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+    delta = Math.floor(delta / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW));
+}
+
+function decodeDigit(codePoint: number): number {
+  if (codePoint >= 48 && codePoint <= 57) return codePoint - 22;
+  if (codePoint >= 65 && codePoint <= 90) return codePoint - 65;
+  if (codePoint >= 97 && codePoint <= 122) return codePoint - 97;
+  return BASE;
+}
+
+// Decode one punycode label (without the xn-- prefix). Returns null for
+// malformed input rather than throwing.
+function decodePunycode(input: string): string | null {
+  const output: number[] = [];
+  const basic = Math.max(input.lastIndexOf('-'), 0);
+
+  for (let j = 0; j < basic; j++) {
+    if (input.charCodeAt(j) >= 0x80) return null;
+    output.push(input.charCodeAt(j));
+  }
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+
+  for (let index = basic > 0 ? basic + 1 : 0; index < input.length;) {
+    const oldI = i;
+    let weight = 1;
+    for (let k = BASE; ; k += BASE) {
+      if (index >= input.length) return null;
+      const digit = decodeDigit(input.charCodeAt(index++));
+      if (digit >= BASE) return null;
+      i += digit * weight;
+      const threshold = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+      if (digit < threshold) break;
+      weight *= BASE - threshold;
+    }
+    const length = output.length + 1;
+    bias = adapt(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    if (n > 0x10ffff) return null;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+// Convert a domain to its ASCII form (lowercase, IDNA/UTS #46 mapped).
+// Returns null when the name cannot be encoded.
+export function toAsciiDomain(domain: string): string | null {
+  if (isAscii(domain)) return domain.toLowerCase();
+
+  // The URL parser implements UTS #46 processing in both Node and browsers
+  try {
+    const hostname = new URL(`http://${domain}/`).hostname;
+    return hostname && isAscii(hostname) ? hostname : null;
+  } catch {
+    return null;
+  }
+}
+
+// Convert a domain to its Unicode form for display. Labels that fail to
+// decode are left in their ASCII form.
+export function toUnicodeDomain(domain: string): string {
+  return domain
+    .split('.')
+    .map(label => {
+      if (!label.toLowerCase().startsWith(ACE_PREFIX)) return label;
+      return decodePunycode(label.slice(ACE_PREFIX.length).toLowerCase()) ?? label;
+    })
+    .join('.');
+}
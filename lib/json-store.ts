@@ -0,0 +1,32 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+// Server-only: small JSON documents kept in TRUEREACH_DATA_DIR (.data by
+// default). Writes go through a temporary file so a crash never leaves a
+// half-written document behind.
+
+export interface JsonStore<T> {
+  read(): T;
+  write(value: T): void;
+}
+
+export function getDataDir(): string {
+  return process.env.TRUEREACH_DATA_DIR || join(process.cwd(), '.data');
+}
+
+export function createJsonStore<T>(fileName: string, initial: () => T): JsonStore<T> {
+  const path = () => join(getDataDir(), fileName);
+
+  return {
+    read() {
+      if (!existsSync(path())) return initial();
+      return JSON.parse(readFileSync(path(), 'utf8')) as T;
+    },
+    write(value) {
+      mkdirSync(getDataDir(), { recursive: true });
+      const temporary = `${path()}.tmp`;
+      writeFileSync(temporary, JSON.stringify(value, null, 2));
+      renameSync(temporary, path());
+    }
+  };
+}
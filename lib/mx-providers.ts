@@ -0,0 +1,71 @@
+import type { MxRecord } from '@/lib/dns-resolver';
+
+// Mailbox provider fingerprints from MX hostnames. Who hosts a domain changes
+// how far an SMTP verdict can be trusted: security gateways such as Proofpoint
+// or Mimecast usually accept every recipient and filter afterwards.
+
+export type MailProviderCategory = 'mailbox' | 'gateway';
+
+export interface MailProvider {
+  id: string;
+  name: string;
+  category: MailProviderCategory;
+}
+
+interface Fingerprint extends MailProvider {
+  // MX hostname suffixes, matched on label boundaries
+  suffixes: string[];
+}
+
+// First match wins, so narrower suffixes come before broader ones: consumer
+// Gmail and Google Workspace share google.com but not their MX hosts.
+const FINGERPRINTS: Fingerprint[] = [
+  { id: 'gmail', name: 'Gmail', category: 'mailbox', suffixes: ['gmail-smtp-in.l.google.com'] },
+  { id: 'google', name: 'Google Workspace', category: 'mailbox', suffixes: ['google.com', 'googlemail.com'] },
+  { id: 'microsoft', name: 'Microsoft 365', category: 'mailbox', suffixes: ['protection.outlook.com', 'outlook.com', 'hotmail.com'] },
+  { id: 'yahoo', name: 'Yahoo', category: 'mailbox', suffixes: ['yahoodns.net'] },
+  { id: 'apple', name: 'iCloud Mail', category: 'mailbox', suffixes: ['mail.icloud.com'] },
+  { id: 'zoho', name: 'Zoho Mail', category: 'mailbox', suffixes: ['zoho.com', 'zoho.eu', 'zoho.in', 'zohomail.com'] },
+  { id: 'fastmail', name: 'Fastmail', category: 'mailbox', suffixes: ['messagingengine.com'] },
+  { id: 'proton', name: 'Proton Mail', category: 'mailbox', suffixes: ['protonmail.ch'] },
+  { id: 'yandex', name: 'Yandex 360', category: 'mailbox', suffixes: ['yandex.net', 'yandex.ru'] },
+  { id: 'mailru', name: 'Mail.ru', category: 'mailbox', suffixes: ['mail.ru'] },
+  { id: 'gmx', name: 'GMX / WEB.DE', category: 'mailbox', suffixes: ['gmx.net', 'web.de', 'kundenserver.de'] },
+  { id: 'tencent', name: 'Tencent Exmail / QQ', category: 'mailbox', suffixes: ['qq.com'] },
+  { id: 'netease', name: 'NetEase', category: 'mailbox', suffixes: ['netease.com', '163.com', '126.com'] },
+  { id: 'amazon', name: 'Amazon WorkMail / SES', category: 'mailbox', suffixes: ['amazonaws.com'] },
+  { id: 'rackspace', name: 'Rackspace Email', category: 'mailbox', suffixes: ['emailsrvr.com'] },
+  { id: 'godaddy', name: 'GoDaddy', category: 'mailbox', suffixes: ['secureserver.net'] },
+  { id: 'ovh', name: 'OVHcloud', category: 'mailbox', suffixes: ['ovh.net'] },
+  { id: 'namecheap', name: 'Namecheap Private Email', category: 'mailbox', suffixes: ['privateemail.com'] },
+  { id: 'proofpoint', name: 'Proofpoint', category: 'gateway', suffixes: ['pphosted.com', 'ppe-hosted.com'] },
+  { id: 'mimecast', name: 'Mimecast', category: 'gateway', suffixes: ['mimecast.com', 'mimecast.co.za'] },
+  { id: 'barracuda', name: 'Barracuda', category: 'gateway', suffixes: ['barracudanetworks.com'] },
+  { id: 'cisco', name: 'Cisco Secure Email', category: 'gateway', suffixes: ['iphmx.com'] },
+  { id: 'trendmicro', name: 'Trend Micro', category: 'gateway', suffixes: ['trendmicro.com', 'trendmicro.eu'] },
+  { id: 'sophos', name: 'Sophos', category: 'gateway', suffixes: ['sophos.com'] },
+  { id: 'forcepoint', name: 'Forcepoint', category: 'gateway', suffixes: ['mailcontrol.com'] },
+  { id: 'messagelabs', name: 'Broadcom Email Security', category: 'gateway', suffixes: ['messagelabs.com'] },
+  { id: 'hornetsecurity', name: 'Hornetsecurity', category: 'gateway', suffixes: ['hornetsecurity.com'] }
+];
+
+function matchesSuffix(host: string, suffix: string): boolean {
+  return host === suffix || host.endsWith(`.${suffix}`);
+}
+
+export function fingerprintMxHost(host: string): MailProvider | null {
+  const normalized = host.toLowerCase().replace(/\.$/, '');
+  const match = FINGERPRINTS.find(fingerprint =>
+    fingerprint.suffixes.some(suffix => matchesSuffix(normalized, suffix))
+  );
+  return match ? { id: match.id, name: match.name, category: match.category } : null;
+}
+
+// Provider behind the most preferred MX host that has a known fingerprint
+export function fingerprintMailProvider(mxRecords: MxRecord[]): MailProvider | null {
+  for (const record of mxRecords) {
+    const provider = fingerprintMxHost(record.exchange);
+    if (provider) return provider;
+  }
+  return null;
+}
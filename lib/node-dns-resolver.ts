@@ -0,0 +1,50 @@
+import { Resolver } from 'dns/promises';
+import { createDnsError, DnsErrorCode, DnsResolver } from '@/lib/dns-resolver';
+
+// Server-only: wraps Node's dns/promises resolver behind the DnsResolver
+// interface. Never import this from a client component.
+
+export interface NodeDnsResolverOptions {
+  servers?: string[];
+  timeoutMs?: number;
+  tries?: number;
+}
+
+const NODE_ERROR_CODES: Record<string, DnsErrorCode> = {
+  ENOTFOUND: 'NXDOMAIN',
+  ENODATA: 'NODATA',
+  ETIMEOUT: 'TIMEOUT',
+  ESERVFAIL: 'SERVFAIL'
+};
+
+function toDnsError(error: unknown, hostname: string) {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  return createDnsError((code && NODE_ERROR_CODES[code]) || 'SERVFAIL', hostname);
+}
+
+export function createNodeDnsResolver(options: NodeDnsResolverOptions = {}): DnsResolver {
+  const resolver = new Resolver({
+    timeout: options.timeoutMs ?? 5000,
+    tries: options.tries ?? 2
+  });
+
+  if (options.servers && options.servers.length > 0) {
+    resolver.setServers(options.servers);
+  }
+
+  // Node reports failures as errno-style errors; map them to DnsError codes
+  const query = async <T>(hostname: string, run: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (error) {
+      throw toDnsError(error, hostname);
+    }
+  };
+
+  return {
+    resolveMx: domain => query(domain, () => resolver.resolveMx(domain)),
+    resolve4: hostname => query(hostname, () => resolver.resolve4(hostname)),
+    resolve6: hostname => query(hostname, () => resolver.resolve6(hostname)),
+    resolveTxt: hostname => query(hostname, () => resolver.resolveTxt(hostname))
+  };
+}
@@ -0,0 +1,236 @@
+import { lookup } from 'dns/promises';
+import { BlockList, connect as connectSocket, isIP, Socket } from 'net';
+import { createSmtpError, isSmtpError, SmtpProber, SmtpReply, SmtpSession } from '@/lib/smtp-prober';
+
+// Server-only: speaks just enough SMTP over a plain TCP socket to run
+// EHLO / MAIL FROM / RCPT TO / QUIT. `port` defaults to 25 and can point at
+// a fake server on localhost for tests.
+
+export interface NodeSmtpProberOptions {
+  heloName: string;
+  mailFrom: string;
+  port?: number;
+  connectTimeoutMs?: number;
+  commandTimeoutMs?: number;
+  // Connect to MX hosts on loopback, private and link-local addresses too.
+  // Off by default: anyone who can publish an MX record could otherwise
+  // point the prober at the network it runs in.
+  allowPrivateAddresses?: boolean;
+}
+
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// The address to connect to for `host`: the first public one it resolves to
+async function resolveHost(host: string, allowPrivate: boolean): Promise<string> {
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    throw createSmtpError('connection_failed', host);
+  }
+  const allowed = allowPrivate ? addresses : addresses.filter(address => !isPrivateAddress(address));
+  if (allowed.length === 0) throw createSmtpError(addresses.length > 0 ? 'private_address' : 'connection_failed', host);
+  return allowed[0];
+}
+
+interface RawReply {
+  code: number;
+  lines: string[];
+}
+
+interface ReplyReader {
+  next(): Promise<RawReply>;
+}
+
+function toSmtpReply(raw: RawReply): SmtpReply {
+  const enhanced = raw.lines[0]?.match(/^([245]\.\d{1,3}\.\d{1,3})\s/);
+  return {
+    code: raw.code,
+    enhancedCode: enhanced ? enhanced[1] : null,
+    message: raw.lines.join(' ').trim()
+  };
+}
+
+// Collects complete (possibly multi-line) replies from the socket and hands
+// them out in order. Each next() call fails after the command timeout, or
+// as soon as the signal aborts.
+function createReplyReader(socket: Socket, host: string, timeoutMs: number, signal?: AbortSignal): ReplyReader {
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const queued: RawReply[] = [];
+  const waiters: Array<{ resolve: (reply: RawReply) => void; reject: (error: Error) => void }> = [];
+
+  const deliver = (reply: RawReply) => {
+    const waiter = waiters.shift();
+    if (waiter) waiter.resolve(reply);
+    else queued.push(reply);
+  };
+
+  const fail = (error: Error) => {
+    failure = failure || error;
+    while (waiters.length > 0) waiters.shift()!.reject(failure);
+  };
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+
+      const match = line.match(/^(\d{3})([ -]?)(.*)$/);
+      if (!match) continue;
+      lines.push(match[3]);
+      if (match[2] !== '-') {
+        deliver({ code: Number(match[1]), lines });
+        lines = [];
+      }
+    }
+  });
+  socket.on('error', () => fail(createSmtpError('connection_failed', host)));
+  socket.on('close', () => fail(createSmtpError(signal?.aborted ? 'timeout' : 'connection_failed', host)));
+
+  return {
+    next() {
+      if (queued.length > 0) return Promise.resolve(queued.shift()!);
+      if (failure) return Promise.reject(failure);
+
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          const index = waiters.indexOf(waiter);
+          if (index !== -1) waiters.splice(index, 1);
+          reject(createSmtpError('timeout', host));
+        }, timeoutMs);
+        const waiter = {
+          resolve: (reply: RawReply) => { clearTimeout(timer); resolve(reply); },
+          reject: (error: Error) => { clearTimeout(timer); reject(error); }
+        };
+        waiters.push(waiter);
+      });
+    }
+  };
+}
+
+function openSocket(host: string, address: string, port: number, timeoutMs: number, signal?: AbortSignal): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createSmtpError('timeout', host));
+      return;
+    }
+
+    const socket = connectSocket({ host: address, port });
+    const giveUp = () => {
+      clearTimeout(timer);
+      socket.destroy();
+      reject(createSmtpError('timeout', host));
+    };
+    const timer = setTimeout(giveUp, timeoutMs);
+    signal?.addEventListener('abort', giveUp);
+
+    // Once connected, an abort drops the connection; the reply reader then
+    // fails whatever command is pending
+    const abort = () => socket.destroy();
+    socket.once('connect', () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', giveUp);
+      signal?.addEventListener('abort', abort);
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', giveUp);
+      socket.destroy();
+      reject(createSmtpError('connection_failed', host));
+    });
+    socket.once('close', () => signal?.removeEventListener('abort', abort));
+  });
+}
+
+export function createNodeSmtpProber(options: NodeSmtpProberOptions): SmtpProber {
+  const port = options.port ?? 25;
+  const connectTimeoutMs = options.connectTimeoutMs ?? 10000;
+  const commandTimeoutMs = options.commandTimeoutMs ?? 15000;
+
+  return {
+    async connect(host, connectOptions = {}) {
+      const address = await resolveHost(host, options.allowPrivateAddresses ?? false);
+      const socket = await openSocket(host, address, port, connectTimeoutMs, connectOptions.signal);
+      socket.setEncoding('utf8');
+      const reader = createReplyReader(socket, host, commandTimeoutMs, connectOptions.signal);
+
+      // Once a command times out its reply may still arrive and be taken
+      // for the next one's, so the session is only fit to be dropped
+      let timedOut = false;
+      const command = async (line: string) => {
+        socket.write(`${line}\r\n`);
+        try {
+          return await reader.next();
+        } catch (error) {
+          if (isSmtpError(error) && error.reason === 'timeout') timedOut = true;
+          throw error;
+        }
+      };
+
+      try {
+        const greeting = await reader.next();
+        if (greeting.code !== 220) throw createSmtpError('rejected', host, toSmtpReply(greeting));
+
+        let hello = await command(`EHLO ${options.heloName}`);
+        if (hello.code >= 500) hello = await command(`HELO ${options.heloName}`);
+        if (hello.code !== 250) throw createSmtpError('rejected', host, toSmtpReply(hello));
+
+        // The first EHLO line is the server greeting; the rest name extensions
+        const extensions = hello.lines.slice(1).map(line => line.split(' ')[0].toUpperCase());
+        const smtpUtf8 = connectOptions.smtpUtf8 && extensions.indexOf('SMTPUTF8') !== -1;
+
+        const mailFrom = await command(`MAIL FROM:<${options.mailFrom}>${smtpUtf8 ? ' SMTPUTF8' : ''}`);
+        if (mailFrom.code !== 250) throw createSmtpError('rejected', host, toSmtpReply(mailFrom));
+
+        const session: SmtpSession = {
+          host,
+          extensions,
+          async rcptTo(address) {
+            return toSmtpReply(await command(`RCPT TO:<${address}>`));
+          },
+          async close() {
+            if (socket.destroyed) return;
+            if (timedOut) {
+              socket.destroy();
+              return;
+            }
+            try {
+              await command('QUIT');
+            } catch {
+              // The verdict is already in hand; a server that drops the
+              // connection instead of answering QUIT is not an error
+            }
+            socket.destroy();
+          }
+        };
+        return session;
+      } catch (error) {
+        socket.destroy();
+        throw error;
+      }
+    }
+  };
+}
@@ -0,0 +1,61 @@
+import { parseAddress } from '@/lib/address-parser';
+
+// Canonical form of an address, for spotting two spellings of one mailbox:
+// John.Doe+news@GoogleMail.com and johndoe@gmail.com are the same inbox.
+// Provider-specific rules only apply where the provider documents them;
+// other domains just get a lowercase domain.
+
+interface ProviderRules {
+  // Domain the provider's aliases are folded into
+  canonicalDomain: string;
+  // Character that starts a sub-address tag ("+news")
+  tagSeparator?: string;
+  // Dots in the local part are ignored by the provider
+  ignoresDots?: boolean;
+}
+
+const GMAIL: ProviderRules = { canonicalDomain: 'gmail.com', tagSeparator: '+', ignoresDots: true };
+
+const PROVIDERS: Record<string, ProviderRules> = {
+  'gmail.com': GMAIL,
+  'googlemail.com': GMAIL,
+  'outlook.com': { canonicalDomain: 'outlook.com', tagSeparator: '+' },
+  'hotmail.com': { canonicalDomain: 'hotmail.com', tagSeparator: '+' },
+  'live.com': { canonicalDomain: 'live.com', tagSeparator: '+' },
+  'msn.com': { canonicalDomain: 'msn.com', tagSeparator: '+' },
+  'icloud.com': { canonicalDomain: 'icloud.com', tagSeparator: '+' },
+  'me.com': { canonicalDomain: 'me.com', tagSeparator: '+' },
+  'mac.com': { canonicalDomain: 'mac.com', tagSeparator: '+' },
+  'fastmail.com': { canonicalDomain: 'fastmail.com', tagSeparator: '+' },
+  'proton.me': { canonicalDomain: 'proton.me', tagSeparator: '+' },
+  'protonmail.com': { canonicalDomain: 'protonmail.com', tagSeparator: '+' },
+  'pm.me': { canonicalDomain: 'pm.me', tagSeparator: '+' },
+  'zoho.com': { canonicalDomain: 'zoho.com', tagSeparator: '+' },
+  'yandex.ru': { canonicalDomain: 'yandex.ru', tagSeparator: '+' },
+  'yandex.com': { canonicalDomain: 'yandex.ru', tagSeparator: '+' },
+  'ya.ru': { canonicalDomain: 'yandex.ru', tagSeparator: '+' }
+};
+
+// Canonical address, or null when the input does not parse as an address.
+// The domain is returned in its ASCII (punycode) form.
+export function normalizeEmail(email: string): string | null {
+  const parsed = parseAddress(email, 'lenient');
+  if (!parsed.ok) return null;
+
+  const { localPart, asciiDomain, isQuoted, isIpLiteral } = parsed.address;
+  const domain = asciiDomain.toLowerCase();
+  const rules = isIpLiteral ? undefined : PROVIDERS[domain];
+
+  // Quoted local parts are taken literally, whatever the provider
+  if (!rules || isQuoted) return `${localPart}@${rules?.canonicalDomain ?? domain}`;
+
+  // These providers treat local parts case-insensitively
+  let local = localPart.toLowerCase();
+  if (rules.tagSeparator) {
+    const tag = local.indexOf(rules.tagSeparator);
+    if (tag > 0) local = local.slice(0, tag);
+  }
+  if (rules.ignoresDots) local = local.replace(/\./g, '');
+
+  return `${local}@${rules.canonicalDomain}`;
+}
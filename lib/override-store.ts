@@ -0,0 +1,42 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from '@/lib/json-store';
+import { createOverrideMatcher, OverrideInput, OverrideMatcher, OverrideRule } from '@/lib/overrides';
+
+// Server-only: the team's override rules, kept in .data/overrides.json.
+
+const store = createJsonStore<{ rules: OverrideRule[] }>('overrides.json', () => ({ rules: [] }));
+
+// Rebuilt after every change rather than on every validation
+let matcher: OverrideMatcher | null = null;
+
+export function listOverrides(): OverrideRule[] {
+  return store.read().rules;
+}
+
+// A rule for a kind and pattern that already has one replaces it
+export function saveOverrides(inputs: OverrideInput[]): OverrideRule[] {
+  const createdAt = new Date().toISOString();
+  const key = (rule: OverrideInput) => `${rule.kind} ${rule.pattern}`;
+  const added = new Map<string, OverrideRule>();
+  inputs.forEach(input => added.set(key(input), { ...input, id: randomUUID(), createdAt }));
+
+  const kept = listOverrides().filter(rule => !added.has(key(rule)));
+  const saved = Array.from(added.values());
+  store.write({ rules: kept.concat(saved) });
+  matcher = null;
+  return saved;
+}
+
+export function deleteOverride(id: string): boolean {
+  const rules = listOverrides();
+  const remaining = rules.filter(rule => rule.id !== id);
+  if (remaining.length === rules.length) return false;
+  store.write({ rules: remaining });
+  matcher = null;
+  return true;
+}
+
+export function getOverrideMatcher(): OverrideMatcher {
+  if (!matcher) matcher = createOverrideMatcher(listOverrides());
+  return matcher;
+}
@@ -0,0 +1,39 @@
+import type { OverrideInput, OverrideRule } from '@/lib/overrides';
+
+// Browser-side access to the team's override rules (/api/overrides)
+
+export const OVERRIDES_CSV_URL = '/api/overrides?format=csv';
+
+// The route explains rejected rules in an { error } body
+async function readRules(response: Response): Promise<OverrideRule[]> {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Override request failed with status ${response.status}`);
+  }
+  return body.rules;
+}
+
+export async function fetchOverrides(): Promise<OverrideRule[]> {
+  return readRules(await fetch('/api/overrides', { cache: 'no-store' }));
+}
+
+export async function addOverride(input: OverrideInput): Promise<OverrideRule[]> {
+  return readRules(await fetch('/api/overrides', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  }));
+}
+
+export async function importOverridesCsv(csv: string): Promise<OverrideRule[]> {
+  return readRules(await fetch('/api/overrides', {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/csv' },
+    body: csv
+  }));
+}
+
+export async function removeOverride(id: string): Promise<void> {
+  const response = await fetch(`/api/overrides?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) throw new Error(`Override request failed with status ${response.status}`);
+}
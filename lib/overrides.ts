@@ -0,0 +1,153 @@
+import { splitEmail } from '@/lib/checks/helpers';
+import { formatCsv, parseCsv } from '@/lib/csv';
+import { toAsciiDomain } from '@/lib/idn';
+import { normalizeEmail } from '@/lib/normalize-email';
+
+// Team overrides: addresses, domains and local-part patterns the team has
+// already made up its mind about. validateEmail settles a matching address
+// from the rule alone, without any lookups.
+//
+// address:    one mailbox, compared in canonical form (see normalizeEmail)
+// domain:     the domain and its subdomains; "*.example.com" subdomains only
+// local_part: a pattern for the part before the @, where * matches anything
+//             ("noreply*", "*-bounces")
+
+export type OverrideKind = 'address' | 'domain' | 'local_part';
+
+export type OverrideAction = 'valid' | 'invalid' | 'do_not_contact';
+
+export const OVERRIDE_KINDS: OverrideKind[] = ['address', 'domain', 'local_part'];
+export const OVERRIDE_ACTIONS: OverrideAction[] = ['valid', 'invalid', 'do_not_contact'];
+
+export interface OverrideInput {
+  kind: OverrideKind;
+  pattern: string;
+  action: OverrideAction;
+  note: string;
+}
+
+export interface OverrideRule extends OverrideInput {
+  id: string;
+  createdAt: string;
+}
+
+export interface OverrideMatcher {
+  rules: OverrideRule[];
+  match(email: string): OverrideRule | null;
+}
+
+export interface OverrideError extends Error {
+  // 1-based CSV row (header included), when the rule came from an import
+  row: number | null;
+}
+
+export function createOverrideError(message: string, row: number | null = null): OverrideError {
+  const error = new Error(row === null ? message : `Row ${row}: ${message}`) as OverrideError;
+  error.name = 'OverrideError';
+  error.row = row;
+  return error;
+}
+
+export function isOverrideError(error: unknown): error is OverrideError {
+  return error instanceof Error && error.name === 'OverrideError';
+}
+
+function isOverrideKind(value: unknown): value is OverrideKind {
+  return OVERRIDE_KINDS.indexOf(value as OverrideKind) !== -1;
+}
+
+function isOverrideAction(value: unknown): value is OverrideAction {
+  return OVERRIDE_ACTIONS.indexOf(value as OverrideAction) !== -1;
+}
+
+function canonicalAddress(email: string): string {
+  return (normalizeEmail(email) ?? email.trim()).toLowerCase();
+}
+
+// Check and normalize a rule before it is stored: addresses in canonical
+// form, domains in lowercase punycode, patterns in lowercase
+export function normalizeOverrideInput(input: Partial<Record<keyof OverrideInput, unknown>>, row: number | null = null): OverrideInput {
+  const { kind, action } = input;
+  const pattern = typeof input.pattern === 'string' ? input.pattern.trim() : '';
+  const note = typeof input.note === 'string' ? input.note.trim() : '';
+
+  if (!isOverrideKind(kind)) throw createOverrideError(`Unknown rule type "${kind}"`, row);
+  if (!isOverrideAction(action)) throw createOverrideError(`Unknown action "${action}"`, row);
+  if (!pattern) throw createOverrideError('Pattern is empty', row);
+
+  if (kind === 'address') {
+    if (!normalizeEmail(pattern)) throw createOverrideError(`"${pattern}" is not an email address`, row);
+    return { kind, pattern: canonicalAddress(pattern), action, note };
+  }
+  if (kind === 'domain') {
+    const wildcard = pattern.startsWith('*.');
+    const domain = toAsciiDomain(pattern.replace(/^\*\./, '').replace(/^@/, '').replace(/\.$/, ''));
+    if (!domain) throw createOverrideError(`"${pattern}" is not a domain`, row);
+    return { kind, pattern: `${wildcard ? '*.' : ''}${domain.toLowerCase()}`, action, note };
+  }
+  if (pattern.indexOf('@') !== -1) throw createOverrideError(`"${pattern}" should not contain @`, row);
+  return { kind, pattern: pattern.toLowerCase(), action, note };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+function matchesDomain(domain: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) return domain.endsWith(pattern.slice(1));
+  return domain === pattern || domain.endsWith(`.${pattern}`);
+}
+
+// The most specific kind of rule wins: an address rule over a local-part
+// pattern over a domain rule. Among rules of one kind the strictest action
+// wins, so a "do not contact" is never undone by an overlapping "valid".
+const KIND_PRECEDENCE: OverrideKind[] = ['address', 'local_part', 'domain'];
+const ACTION_PRECEDENCE: OverrideAction[] = ['do_not_contact', 'invalid', 'valid'];
+
+export function createOverrideMatcher(rules: OverrideRule[]): OverrideMatcher {
+  const ordered = rules.slice().sort((a, b) =>
+    KIND_PRECEDENCE.indexOf(a.kind) - KIND_PRECEDENCE.indexOf(b.kind)
+      || ACTION_PRECEDENCE.indexOf(a.action) - ACTION_PRECEDENCE.indexOf(b.action)
+  );
+  const localPatterns = new Map<string, RegExp>();
+  ordered
+    .filter(rule => rule.kind === 'local_part')
+    .forEach(rule => localPatterns.set(rule.pattern, globToRegExp(rule.pattern)));
+
+  return {
+    rules,
+    match(email) {
+      const { localPart, domain: rawDomain } = splitEmail(email.trim());
+      const address = canonicalAddress(email);
+      const domain = (toAsciiDomain(rawDomain) ?? rawDomain).toLowerCase().replace(/\.$/, '');
+      const local = localPart.replace(/^"|"$/g, '').toLowerCase();
+
+      const match = ordered.find(rule => {
+        if (rule.kind === 'address') return rule.pattern === address;
+        if (rule.kind === 'domain') return !!domain && matchesDomain(domain, rule.pattern);
+        return localPatterns.get(rule.pattern)!.test(local);
+      });
+      return match ?? null;
+    }
+  };
+}
+
+// CSV columns: type, pattern, action, note. A header row is optional.
+export function parseOverridesCsv(text: string): OverrideInput[] {
+  const rows = parseCsv(text);
+  const hasHeader = rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'type';
+  return rows.slice(hasHeader ? 1 : 0).map(([kind, pattern, action, note], index) =>
+    normalizeOverrideInput(
+      { kind: kind?.trim().toLowerCase(), pattern, action: action?.trim().toLowerCase(), note },
+      index + (hasHeader ? 2 : 1)
+    )
+  );
+}
+
+export function formatOverridesCsv(rules: OverrideRule[]): string {
+  return formatCsv([
+    ['type', 'pattern', 'action', 'note', 'created_at'],
+    ...rules.map(rule => [rule.kind, rule.pattern, rule.action, rule.note, rule.createdAt])
+  ]);
+}
@@ -0,0 +1,26 @@
+// Seedable pseudo-random numbers. The engine never calls Math.random; code
+// that needs randomness takes a RandomSource so runs can be reproduced.
+
+export type RandomSource = () => number;
+
+// FNV-1a, used to turn string seeds into 32-bit integers
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for picking probe addresses
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,91 @@
+import { CHECKS } from '@/lib/checks';
+import { ScoringProfile } from '@/lib/scoring-profiles';
+import type { CheckReason, EmailChecks, ScoreBreakdownItem } from '@/lib/validation-result';
+
+// Turns check results into the score and an itemized explanation of it: what
+// each check earned or cost under the profile, and why, in one sentence.
+
+const REASON_SENTENCES: Record<Exclude<CheckReason, 'ok'>, string> = {
+  not_checked: 'Not checked because an earlier check did not pass.',
+  invalid_syntax: 'The address is not well-formed.',
+  invalid_domain: 'The domain name is not valid.',
+  ip_literal: 'The address names a server by IP address instead of a domain.',
+  domain_not_found: 'The domain does not exist.',
+  mx_not_found: 'The domain has no mail servers configured.',
+  implicit_mx: 'The domain has no MX records, so mail goes to its own address.',
+  null_mx: 'The domain publishes a null MX record and accepts no mail.',
+  dns_timeout: 'The DNS lookup timed out.',
+  dns_error: 'The DNS server failed to answer.',
+  disposable_domain: 'The domain is a disposable (throwaway) provider.',
+  free_provider: 'The address is at a free webmail provider.',
+  role_account: 'The address is a shared role account such as info@ or support@.',
+  gibberish_local_part: 'The local part looks random or machine-generated.',
+  catch_all: 'The domain accepts mail for any address, so the mailbox cannot be confirmed.',
+  catch_all_inconclusive: 'The catch-all probe did not give a clear answer.',
+  mailbox_not_found: 'The mail server rejected the mailbox.',
+  greylisted: 'The mail server deferred the check (greylisting).',
+  smtp_timeout: 'The mail server did not answer in time.',
+  smtp_connection_failed: 'The mail server could not be reached.',
+  smtp_blocked: 'The mail server refused to answer verification probes.',
+  smtp_unavailable: 'The mail server was temporarily unavailable.',
+  smtputf8_unsupported: 'The mail server cannot receive internationalized addresses.',
+  no_mail_auth: 'The domain is missing SPF or DMARC, which is common for parked domains.',
+  broken_mail_auth: 'The domain publishes a broken SPF or DMARC record.',
+  blocklisted: 'A mail server or the domain is on a DNS blocklist.',
+  hard_bounce: 'Mail to the address has bounced permanently before.',
+  soft_bounce: 'Mail to the address bounced recently with a temporary failure.',
+  block_bounce: 'Mail to the address was recently refused as spam or by policy.',
+  check_timeout: 'The check ran out of time before it reached a verdict.'
+};
+
+// Score (0-100) and per-check breakdown. `points` are in the profile's
+// weight units; `penalty` is what the check withheld or deducted.
+export function explainEmailScore(
+  checks: EmailChecks,
+  profile: ScoringProfile
+): { score: number; breakdown: ScoreBreakdownItem[] } {
+  const breakdown = CHECKS.map((definition): ScoreBreakdownItem => {
+    const { status, reason } = checks[definition.id];
+    const value = profile.points[definition.id] ?? definition.scoring.points;
+    const item = {
+      check: definition.id,
+      label: definition.label,
+      status,
+      reasonCode: reason,
+      reason: reason === 'ok' ? definition.passReason : REASON_SENTENCES[reason]
+    };
+
+    // Penalty checks only cost points when they actually flag something
+    if (definition.scoring.kind === 'penalty') {
+      const flagged = status === 'warning' || status === 'fail';
+      return { ...item, points: 0, maxPoints: 0, penalty: flagged ? value : 0 };
+    }
+
+    // Weighted checks earn their points on pass, part of them when a real
+    // attempt was inconclusive, and nothing when they were skipped
+    const points = reason === 'not_checked' ? 0 : status === 'pass'
+      ? value
+      : status === 'unknown'
+        ? value * (1 - profile.unknownPenalty)
+        : reason === 'implicit_mx' ? value * profile.implicitMxCredit : 0;
+    return { ...item, points, maxPoints: value, penalty: value - points };
+  });
+
+  const earned = breakdown.reduce((total, item) => total + item.points, 0);
+  const deducted = breakdown
+    .filter(item => item.maxPoints === 0)
+    .reduce((total, item) => total + item.penalty, 0);
+  const maxPossibleScore = breakdown.reduce((total, item) => total + item.maxPoints, 0);
+
+  // Normalize to 0-100 scale
+  const score = Math.round(Math.max(0, Math.min(100, ((earned - deducted) / maxPossibleScore) * 100)));
+  return { score, breakdown };
+}
+
+// Compact form for CSV export: "smtp:mailbox_not_found:-25;roleBased:role_account:-5"
+export function formatBreakdown(breakdown: ScoreBreakdownItem[]): string {
+  return breakdown
+    .filter(item => item.penalty > 0)
+    .map(item => `${item.check}:${item.reasonCode}:-${Math.round(item.penalty * 10) / 10}`)
+    .join(';');
+}
@@ -0,0 +1,78 @@
+import type { CheckId } from '@/lib/checks/types';
+
+// Named scoring profiles. Each one decides how much every check is worth, how
+// hard an unknown result is penalized and where the status cutoffs sit, so
+// the same checks can produce different verdicts for different use cases.
+// Checks declare their default points; profiles list what they change.
+// Profiles only move the score: a mailbox the server rejected or a domain
+// that takes no mail is invalid under all of them (see getEmailStatus).
+
+export type ScoringProfileId = 'balanced' | 'strict' | 'marketing' | 'signup';
+
+export interface ScoringProfile {
+  id: ScoringProfileId;
+  name: string;
+  description: string;
+  // Points a check earns on pass, or deducts (as a positive number) when it
+  // warns or fails, where they differ from the check's default
+  points: Partial<Record<CheckId, number>>;
+  // Fraction of a weighted check's points withheld when its result is unknown
+  unknownPenalty: number;
+  // Fraction of the MX weight earned when mail falls back to the domain's
+  // A/AAAA record because it has no MX records
+  implicitMxCredit: number;
+  // Minimum scores (0-100) for the valid and risky statuses
+  thresholds: { valid: number; risky: number };
+}
+
+export const SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: 'balanced',
+    name: 'Balanced',
+    description: 'General-purpose list hygiene',
+    points: {},
+    unknownPenalty: 0.5,
+    implicitMxCredit: 0.5,
+    thresholds: { valid: 75, risky: 40 }
+  },
+  {
+    id: 'strict',
+    name: 'Strict',
+    description: 'Only addresses the mail server confirmed',
+    points: { disposable: 25, roleBased: 10, gibberish: 15, catchAll: 15, domainHealth: 10, reputation: 25 },
+    unknownPenalty: 1,
+    implicitMxCredit: 0.25,
+    thresholds: { valid: 85, risky: 60 }
+  },
+  {
+    id: 'marketing',
+    name: 'Marketing',
+    description: 'Cold outreach to business contacts',
+    points: { disposable: 25, freeProvider: 10, roleBased: 10, gibberish: 15, catchAll: 10, domainHealth: 10, reputation: 20 },
+    unknownPenalty: 0.5,
+    implicitMxCredit: 0.5,
+    thresholds: { valid: 75, risky: 45 }
+  },
+  {
+    id: 'signup',
+    name: 'Signup',
+    description: 'Transactional mail to people who just signed up',
+    points: {
+      syntax: 25, domain: 20, mx: 20, smtp: 10,
+      disposable: 30, roleBased: 0, gibberish: 20, catchAll: 0, domainHealth: 0, reputation: 10
+    },
+    unknownPenalty: 0.25,
+    implicitMxCredit: 0.75,
+    thresholds: { valid: 65, risky: 35 }
+  }
+];
+
+export const DEFAULT_SCORING_PROFILE = SCORING_PROFILES[0];
+
+export function isScoringProfileId(value: unknown): value is ScoringProfileId {
+  return SCORING_PROFILES.some(profile => profile.id === value);
+}
+
+export function getScoringProfile(id: ScoringProfileId): ScoringProfile {
+  return SCORING_PROFILES.find(profile => profile.id === id) ?? DEFAULT_SCORING_PROFILE;
+}
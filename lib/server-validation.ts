@@ -0,0 +1,145 @@
+import { readFileSync, statSync } from 'fs';
+import { basename, join } from 'path';
+import { hostname } from 'os';
+import { BatchValidationOptions } from '@/lib/batch-validation';
+import { getBounceHistory } from '@/lib/bounce-store';
+import { createCatchAllCache } from '@/lib/catch-all';
+import { DEFAULT_DNSBL_LISTS, DnsblList } from '@/lib/dnsbl';
+import {
+  BUILTIN_DISPOSABLE_LIST,
+  createDisposableMatcher,
+  DisposableList,
+  parseDisposableList
+} from '@/lib/disposable-domains';
+import { ValidationOptions } from '@/lib/email-validation';
+import { getDataDir } from '@/lib/json-store';
+import { createNodeDnsResolver } from '@/lib/node-dns-resolver';
+import { createNodeSmtpProber } from '@/lib/node-smtp-prober';
+import { getOverrideMatcher } from '@/lib/override-store';
+import { createSqliteValidationHistory } from '@/lib/sqlite-history';
+import { getSuppressionMatcher } from '@/lib/suppression-store';
+
+// Server-only: builds the dependencies validateEmail runs with inside route
+// handlers. Configured from the environment:
+//   TRUEREACH_DNS_SERVERS          comma-separated resolver addresses (system default if unset)
+//   TRUEREACH_SMTP_HELO            name sent in EHLO (machine hostname if unset)
+//   TRUEREACH_SMTP_MAIL_FROM       envelope sender for probes (verify@<helo> if unset)
+//   TRUEREACH_SMTP_PORT            port to probe MX hosts on (25 if unset)
+//   TRUEREACH_SMTP_CONNECT_TIMEOUT connection timeout in ms
+//   TRUEREACH_SMTP_COMMAND_TIMEOUT per-command reply timeout in ms
+//   TRUEREACH_DISPOSABLE_LISTS     comma-separated paths of extra disposable
+//                                  domain lists, merged with the built-in one.
+//                                  Plain text (one domain per line) or JSON in
+//                                  the shape of lib/data/disposable-domains.json
+//   TRUEREACH_DNSBL_IP_LISTS       comma-separated DNSBL zones for MX addresses
+//   TRUEREACH_DNSBL_DOMAIN_LISTS   comma-separated domain blocklist zones
+//                                  (built-in lists if unset, none if empty)
+//   TRUEREACH_GIBBERISH_THRESHOLD  score (0-1) at which local parts are flagged as gibberish
+//   TRUEREACH_VALIDATION_TIMEOUT   overall budget per address in ms (90000 if unset);
+//                                  checks still running are reported as unknown
+//   TRUEREACH_BATCH_CONCURRENCY    addresses a batch validates at once
+//   TRUEREACH_BATCH_DOMAIN_CONCURRENCY  addresses at one domain validated at once
+//   TRUEREACH_BATCH_DOMAIN_INTERVAL     minimum ms between validations of one domain
+//   TRUEREACH_DATA_DIR             directory for team override rules, suppression
+//                                  lists, recorded bounces and history (.data if unset)
+//   TRUEREACH_HISTORY_STORE        "sqlite" to keep past verdicts (the default) or "none"
+//   TRUEREACH_HISTORY_DB           SQLite file for past verdicts (history.sqlite in the
+//                                  data directory if unset)
+//   TRUEREACH_HISTORY_WINDOW_DAYS  how long a verdict is served (and kept) before the
+//                                  address is verified again (7 if unset)
+
+let serverOptions: ValidationOptions | null = null;
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// A plain-text list has no version of its own, so it is versioned by the
+// file's modification time
+function loadDisposableList(path: string): DisposableList {
+  const text = readFileSync(path, 'utf8');
+  if (path.endsWith('.json')) {
+    const list = JSON.parse(text) as Partial<DisposableList>;
+    return {
+      version: list.version || 'unversioned',
+      source: list.source || basename(path),
+      domains: list.domains || []
+    };
+  }
+  const modified = statSync(path).mtime.toISOString().split('T')[0];
+  return parseDisposableList(text, modified, basename(path));
+}
+
+function dnsblLists(kind: DnsblList['kind'], value: string | undefined): DnsblList[] {
+  if (value === undefined) return DEFAULT_DNSBL_LISTS.filter(list => list.kind === kind);
+  return parseList(value).map(zone => ({ zone, kind }));
+}
+
+function historyWindowMs(days: string | undefined): number | undefined {
+  const value = parseNumber(days);
+  return value === undefined ? undefined : value * 24 * 60 * 60 * 1000;
+}
+
+export function getServerValidationOptions(): ValidationOptions {
+  if (!serverOptions) {
+    const heloName = process.env.TRUEREACH_SMTP_HELO || hostname();
+    const windowMs = historyWindowMs(process.env.TRUEREACH_HISTORY_WINDOW_DAYS);
+
+    serverOptions = {
+      resolver: createNodeDnsResolver({
+        servers: parseList(process.env.TRUEREACH_DNS_SERVERS)
+      }),
+      smtpProber: createNodeSmtpProber({
+        heloName,
+        mailFrom: process.env.TRUEREACH_SMTP_MAIL_FROM || `verify@${heloName}`,
+        port: parseNumber(process.env.TRUEREACH_SMTP_PORT),
+        connectTimeoutMs: parseNumber(process.env.TRUEREACH_SMTP_CONNECT_TIMEOUT),
+        commandTimeoutMs: parseNumber(process.env.TRUEREACH_SMTP_COMMAND_TIMEOUT),
+        allowPrivateAddresses: process.env.TRUEREACH_SMTP_ALLOW_PRIVATE === 'true'
+      }),
+      catchAllCache: createCatchAllCache(),
+      disposableMatcher: createDisposableMatcher([
+        BUILTIN_DISPOSABLE_LIST,
+        ...parseList(process.env.TRUEREACH_DISPOSABLE_LISTS).map(loadDisposableList)
+      ]),
+      dnsblLists: [
+        ...dnsblLists('ip', process.env.TRUEREACH_DNSBL_IP_LISTS),
+        ...dnsblLists('domain', process.env.TRUEREACH_DNSBL_DOMAIN_LISTS)
+      ],
+      gibberishThreshold: parseNumber(process.env.TRUEREACH_GIBBERISH_THRESHOLD),
+      timeoutMs: parseNumber(process.env.TRUEREACH_VALIDATION_TIMEOUT) ?? 90000,
+      history: process.env.TRUEREACH_HISTORY_STORE === 'none'
+        ? undefined
+        : createSqliteValidationHistory(
+          process.env.TRUEREACH_HISTORY_DB || join(getDataDir(), 'history.sqlite'),
+          windowMs
+        ),
+      historyWindowMs: windowMs
+    };
+  }
+  // Override rules, suppression lists and bounces change while the server
+  // runs, so they are read per call
+  return {
+    ...serverOptions,
+    overrides: getOverrideMatcher(),
+    suppressions: getSuppressionMatcher(),
+    bounceHistory: getBounceHistory()
+  };
+}
+
+export function getServerBatchOptions(): BatchValidationOptions {
+  return {
+    ...getServerValidationOptions(),
+    concurrency: parseNumber(process.env.TRUEREACH_BATCH_CONCURRENCY),
+    perDomainConcurrency: parseNumber(process.env.TRUEREACH_BATCH_DOMAIN_CONCURRENCY),
+    perDomainIntervalMs: parseNumber(process.env.TRUEREACH_BATCH_DOMAIN_INTERVAL)
+  };
+}
@@ -0,0 +1,154 @@
+import { MxRecord } from '@/lib/dns-resolver';
+
+// SMTP mailbox verification. The engine talks to the SmtpProber interface;
+// the network implementation lives in node-smtp-prober.ts.
+
+export interface SmtpReply {
+  code: number;
+  enhancedCode: string | null;
+  message: string;
+}
+
+export type SmtpOutcome = 'pass' | 'fail' | 'unknown';
+
+// An open conversation with a mail server that has already accepted
+// EHLO and MAIL FROM, ready for RCPT TO commands.
+export interface SmtpSession {
+  host: string;
+  extensions: string[];
+  rcptTo(address: string): Promise<SmtpReply>;
+  close(): Promise<void>;
+}
+
+export interface SmtpConnectOptions {
+  // Declare SMTPUTF8 on MAIL FROM when the server advertises it
+  smtpUtf8?: boolean;
+  // Drop the connection when this aborts; pending commands fail with a timeout
+  signal?: AbortSignal;
+}
+
+export interface SmtpProber {
+  connect(host: string, options?: SmtpConnectOptions): Promise<SmtpSession>;
+}
+
+// private_address: the host resolves only to loopback, private or
+// link-local addresses, which the prober refuses to connect to
+export type SmtpErrorReason = 'timeout' | 'connection_failed' | 'private_address' | 'rejected';
+
+export interface SmtpError extends Error {
+  reason: SmtpErrorReason;
+  host: string;
+  reply: SmtpReply | null;
+}
+
+export interface SmtpCheckResult {
+  outcome: SmtpOutcome;
+  error: SmtpErrorReason | null;
+  // Whether the server advertised SMTPUTF8; null when only ASCII was needed
+  smtpUtf8Supported: boolean | null;
+  mxHost: string | null;
+  code: number | null;
+  enhancedCode: string | null;
+  message: string;
+}
+
+export function createSmtpError(reason: SmtpErrorReason, host: string, reply: SmtpReply | null = null): SmtpError {
+  const detail = reply ? `${reply.code} ${reply.message}` : reason;
+  const error = new Error(`SMTP session with ${host} failed: ${detail}`) as SmtpError;
+  error.name = 'SmtpError';
+  error.reason = reason;
+  error.host = host;
+  error.reply = reply;
+  return error;
+}
+
+export function isSmtpError(error: unknown): error is SmtpError {
+  return error instanceof Error && error.name === 'SmtpError';
+}
+
+// Map an RCPT TO reply onto a mailbox verdict. 5.7.x replies are policy
+// blocks aimed at the prober (blocklisted IP, auth required) rather than a
+// statement about the mailbox, so they stay unknown.
+export function classifySmtpReply(reply: SmtpReply): SmtpOutcome {
+  if (reply.code === 250 || reply.code === 251) return 'pass';
+  if (reply.code >= 500 && reply.code < 600) {
+    return reply.enhancedCode?.startsWith('5.7.') ? 'unknown' : 'fail';
+  }
+  return 'unknown';
+}
+
+export interface VerifyMailboxOptions {
+  // The address has a UTF-8 local part and needs an SMTPUTF8 server
+  smtpUtf8?: boolean;
+  // Runs on the still-open session when the address is accepted, so
+  // follow-up probes reuse the same connection
+  onAccepted?: (session: SmtpSession) => Promise<void>;
+  // Passed on to the prober to cut the session short
+  signal?: AbortSignal;
+}
+
+// Failures to reach a host at all, after which RFC 5321 section 5 has the
+// client move on to the next MX
+const CONNECTION_FAILURES: SmtpErrorReason[] = ['timeout', 'connection_failed', 'private_address'];
+
+// Ask the MX hosts, most preferred first, whether they accept mail for the
+// address. A host that cannot be reached is passed over for the next; the
+// first one that answers has the final word.
+export async function verifyMailbox(
+  email: string,
+  mxRecords: MxRecord[],
+  prober: SmtpProber,
+  options: VerifyMailboxOptions = {}
+): Promise<SmtpCheckResult> {
+  const base = { error: null, smtpUtf8Supported: null, mxHost: null, code: null, enhancedCode: null };
+  let result: SmtpCheckResult = { ...base, outcome: 'unknown', message: 'No MX host to connect to' };
+  let session: SmtpSession | null = null;
+
+  for (const record of mxRecords) {
+    try {
+      session = await prober.connect(record.exchange, { smtpUtf8: options.smtpUtf8, signal: options.signal });
+      break;
+    } catch (error) {
+      if (!isSmtpError(error)) throw error;
+      result = {
+        ...base,
+        outcome: 'unknown',
+        mxHost: record.exchange,
+        error: error.reason,
+        code: error.reply?.code ?? null,
+        enhancedCode: error.reply?.enhancedCode ?? null,
+        message: error.reply?.message ?? error.reason
+      };
+      if (CONNECTION_FAILURES.indexOf(error.reason) === -1 || options.signal?.aborted) return result;
+    }
+  }
+  if (!session) return result;
+
+  const mxHost = session.host;
+  const smtpUtf8Supported = options.smtpUtf8 ? session.extensions.indexOf('SMTPUTF8') !== -1 : null;
+
+  try {
+    // Without SMTPUTF8 the server cannot take mail for a UTF-8 mailbox at all
+    if (smtpUtf8Supported === false) {
+      return { ...base, outcome: 'fail', mxHost, smtpUtf8Supported, message: 'Server does not advertise SMTPUTF8' };
+    }
+
+    const reply = await session.rcptTo(email);
+    const outcome = classifySmtpReply(reply);
+    if (outcome === 'pass' && options.onAccepted) await options.onAccepted(session);
+    return {
+      ...base,
+      outcome,
+      mxHost,
+      smtpUtf8Supported,
+      code: reply.code,
+      enhancedCode: reply.enhancedCode,
+      message: reply.message
+    };
+  } catch (error) {
+    if (!isSmtpError(error)) throw error;
+    return { ...base, outcome: 'unknown', mxHost, error: error.reason, smtpUtf8Supported, message: error.reason };
+  } finally {
+    await session.close();
+  }
+}
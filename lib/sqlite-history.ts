@@ -0,0 +1,109 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import initSqlJs, { Database } from 'sql.js';
+import { DEFAULT_HISTORY_WINDOW_MS, HistoryVerdict, ValidationHistory } from '@/lib/validation-history';
+import type { EmailChecks, EmailStatus } from '@/lib/validation-result';
+
+// Server-only: validation history in a SQLite database file. The database is
+// worked on in memory (sql.js, SQLite compiled to WebAssembly, so nothing
+// native to build) and written back to the file at most once a minute, so a
+// crash loses at most the last minute of verdicts. It holds one small row
+// per address and profile: the latest verdict, check by check. Rows older
+// than the retention window are never served again and are dropped on every
+// write. One server process should own the file.
+
+// "validations" held a row per validation with the whole result as JSON
+const SCHEMA = `
+  DROP TABLE IF EXISTS validations;
+  CREATE TABLE IF NOT EXISTS verdicts (
+    key TEXT NOT NULL,
+    profile TEXT NOT NULL,
+    status TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    validated_at INTEGER NOT NULL,
+    bounced_at TEXT,
+    checks TEXT NOT NULL,
+    PRIMARY KEY (key, profile)
+  );
+`;
+
+// Writes that arrive together (a batch finishing) go out as one, and the
+// whole database is exported no more often than every SAVE_INTERVAL_MS
+const SAVE_DELAY_MS = 1000;
+const SAVE_INTERVAL_MS = 60 * 1000;
+
+export function createSqliteValidationHistory(
+  path: string,
+  retentionMs: number = DEFAULT_HISTORY_WINDOW_MS
+): ValidationHistory {
+  let database: Promise<Database> | null = null;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastSave = 0;
+
+  const prune = (db: Database) => {
+    db.run('DELETE FROM verdicts WHERE validated_at < ?', [Date.now() - retentionMs]);
+  };
+
+  const open = () => {
+    if (!database) {
+      database = initSqlJs().then(SQL => {
+        const db = existsSync(path) ? new SQL.Database(readFileSync(path)) : new SQL.Database();
+        db.exec(SCHEMA);
+        prune(db);
+        return db;
+      });
+    }
+    return database;
+  };
+
+  const save = (db: Database) => {
+    saveTimer = null;
+    lastSave = Date.now();
+    prune(db);
+    mkdirSync(dirname(path), { recursive: true });
+    const temporary = `${path}.tmp`;
+    writeFileSync(temporary, db.export());
+    renameSync(temporary, path);
+  };
+
+  return {
+    async lookup(key, profile, maxAgeMs) {
+      const db = await open();
+      const rows = db.exec(
+        `SELECT checks, score, status, validated_at, bounced_at FROM verdicts
+          WHERE key = ? AND profile = ? AND validated_at >= ?`,
+        [key, profile, Date.now() - maxAgeMs]
+      );
+      if (rows.length === 0) return null;
+      const [checks, score, status, validatedAt, bouncedAt] = rows[0].values[0];
+      return {
+        checks: JSON.parse(String(checks)) as EmailChecks,
+        score: Number(score),
+        status: status as EmailStatus,
+        validatedAt: new Date(Number(validatedAt)).toISOString(),
+        bouncedAt: bouncedAt === null ? null : String(bouncedAt)
+      };
+    },
+
+    async record(key, profile, verdict: HistoryVerdict) {
+      const db = await open();
+      db.run(
+        `INSERT OR REPLACE INTO verdicts (key, profile, status, score, validated_at, bounced_at, checks)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          key,
+          profile,
+          verdict.status,
+          verdict.score,
+          Date.parse(verdict.validatedAt),
+          verdict.bouncedAt,
+          JSON.stringify(verdict.checks)
+        ]
+      );
+      if (!saveTimer) {
+        const wait = Math.max(SAVE_DELAY_MS, lastSave + SAVE_INTERVAL_MS - Date.now());
+        saveTimer = setTimeout(() => save(db), wait);
+      }
+    }
+  };
+}
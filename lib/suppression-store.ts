@@ -0,0 +1,47 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from '@/lib/json-store';
+import {
+  createSuppressionMatcher,
+  SuppressionEntries,
+  SuppressionList,
+  SuppressionListSummary,
+  SuppressionMatcher,
+  SuppressionSource,
+  summarizeSuppressionList
+} from '@/lib/suppressions';
+
+// Server-only: uploaded suppression lists, kept in .data/suppressions.json.
+
+const store = createJsonStore<{ lists: SuppressionList[] }>('suppressions.json', () => ({ lists: [] }));
+
+// Rebuilt after every change rather than on every validation
+let matcher: SuppressionMatcher | null = null;
+
+export function listSuppressionLists(): SuppressionListSummary[] {
+  return store.read().lists.map(summarizeSuppressionList);
+}
+
+export function saveSuppressionList(
+  name: string,
+  source: SuppressionSource,
+  entries: SuppressionEntries
+): SuppressionListSummary {
+  const list: SuppressionList = { id: randomUUID(), name, source, uploadedAt: new Date().toISOString(), entries };
+  store.write({ lists: store.read().lists.concat(list) });
+  matcher = null;
+  return summarizeSuppressionList(list);
+}
+
+export function deleteSuppressionList(id: string): boolean {
+  const { lists } = store.read();
+  const remaining = lists.filter(list => list.id !== id);
+  if (remaining.length === lists.length) return false;
+  store.write({ lists: remaining });
+  matcher = null;
+  return true;
+}
+
+export function getSuppressionMatcher(): SuppressionMatcher {
+  if (!matcher) matcher = createSuppressionMatcher(store.read().lists);
+  return matcher;
+}
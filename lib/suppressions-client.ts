@@ -0,0 +1,36 @@
+import type { SuppressionListSummary, SuppressionSource } from '@/lib/suppressions';
+
+// Browser-side access to the suppression lists (/api/suppressions)
+
+// The route explains rejected uploads in an { error } body
+async function readBody<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Suppression request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+export async function fetchSuppressionLists(): Promise<SuppressionListSummary[]> {
+  const body = await readBody<{ lists: SuppressionListSummary[] }>(await fetch('/api/suppressions', { cache: 'no-store' }));
+  return body.lists;
+}
+
+export async function uploadSuppressionList(
+  name: string,
+  source: SuppressionSource,
+  csv: string
+): Promise<SuppressionListSummary> {
+  const params = new URLSearchParams({ name, source });
+  const body = await readBody<{ list: SuppressionListSummary }>(await fetch(`/api/suppressions?${params}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/csv' },
+    body: csv
+  }));
+  return body.list;
+}
+
+export async function removeSuppressionList(id: string): Promise<void> {
+  const response = await fetch(`/api/suppressions?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) throw new Error(`Suppression request failed with status ${response.status}`);
+}
@@ -0,0 +1,142 @@
+import { createHash } from 'crypto';
+import { parseCsv } from '@/lib/csv';
+import { normalizeEmail } from '@/lib/normalize-email';
+
+// Server-only. Suppression lists: addresses that must not be mailed again
+// whatever validation says (unsubscribes, hard bounces, complaints). Lists
+// hold plain addresses, or SHA-256 / MD5 hex digests of them when that is all
+// the source hands out. validateEmail marks a listed address "suppressed".
+
+export type SuppressionSource = 'unsubscribe' | 'hard_bounce' | 'complaint' | 'other';
+
+export const SUPPRESSION_SOURCES: SuppressionSource[] = ['unsubscribe', 'hard_bounce', 'complaint', 'other'];
+
+// How an entry identifies the address
+export type SuppressionEntryKind = 'address' | 'sha256' | 'md5';
+
+export interface SuppressionEntries {
+  // Canonical form, lowercase (see normalizeEmail)
+  address: string[];
+  // Lowercase hex digests
+  sha256: string[];
+  md5: string[];
+}
+
+export interface SuppressionList {
+  id: string;
+  // Usually the uploaded file's name
+  name: string;
+  source: SuppressionSource;
+  uploadedAt: string;
+  entries: SuppressionEntries;
+}
+
+// A list as shown to the browser: the entries themselves stay on the server
+export interface SuppressionListSummary {
+  id: string;
+  name: string;
+  source: SuppressionSource;
+  uploadedAt: string;
+  counts: Record<SuppressionEntryKind, number>;
+}
+
+export interface SuppressionMatch {
+  listId: string;
+  listName: string;
+  source: SuppressionSource;
+  matchedBy: SuppressionEntryKind;
+}
+
+export interface SuppressionMatcher {
+  match(email: string): SuppressionMatch | null;
+}
+
+export function createSuppressionError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'SuppressionError';
+  return error;
+}
+
+export function isSuppressionError(error: unknown): error is Error {
+  return error instanceof Error && error.name === 'SuppressionError';
+}
+
+export function isSuppressionSource(value: unknown): value is SuppressionSource {
+  return SUPPRESSION_SOURCES.indexOf(value as SuppressionSource) !== -1;
+}
+
+const ENTRY_KINDS: SuppressionEntryKind[] = ['address', 'sha256', 'md5'];
+
+function entryKind(value: string): SuppressionEntryKind | null {
+  if (/^[0-9a-f]{64}$/i.test(value)) return 'sha256';
+  if (/^[0-9a-f]{32}$/i.test(value)) return 'md5';
+  return normalizeEmail(value) ? 'address' : null;
+}
+
+// The column holding addresses or hashes: the first whose header mentions
+// one, otherwise the first column. Cells that are neither are skipped, which
+// also drops a header row.
+export function parseSuppressionCsv(text: string): SuppressionEntries {
+  const rows = parseCsv(text);
+  const header = rows[0] ?? [];
+  const column = Math.max(0, header.findIndex(cell => /mail|hash|sha|md5/i.test(cell)));
+  const entries: SuppressionEntries = { address: [], sha256: [], md5: [] };
+
+  rows.forEach(row => {
+    const value = row[column]?.trim() ?? '';
+    const kind = entryKind(value);
+    if (kind === 'address') entries.address.push(normalizeEmail(value)!.toLowerCase());
+    else if (kind) entries[kind].push(value.toLowerCase());
+  });
+
+  if (ENTRY_KINDS.every(kind => entries[kind].length === 0)) {
+    throw createSuppressionError('The file contains no addresses or SHA-256/MD5 hashes.');
+  }
+  return entries;
+}
+
+export function summarizeSuppressionList(list: SuppressionList): SuppressionListSummary {
+  const { entries, ...summary } = list;
+  return {
+    ...summary,
+    counts: { address: entries.address.length, sha256: entries.sha256.length, md5: entries.md5.length }
+  };
+}
+
+export function createSuppressionMatcher(lists: SuppressionList[]): SuppressionMatcher {
+  const index: Record<SuppressionEntryKind, Map<string, SuppressionList>> = {
+    address: new Map(),
+    sha256: new Map(),
+    md5: new Map()
+  };
+  lists.forEach(list => ENTRY_KINDS.forEach(kind => {
+    list.entries[kind].forEach(value => {
+      if (!index[kind].has(value)) index[kind].set(value, list);
+    });
+  }));
+  const hashed = index.sha256.size > 0 || index.md5.size > 0;
+
+  return {
+    match(email) {
+      const canonical = normalizeEmail(email)?.toLowerCase();
+      if (!canonical) return null;
+      // Hashed lists are usually digests of the trimmed, lowercased address
+      // as it was collected, which is not always the canonical form
+      const forms = [email.trim().toLowerCase(), canonical].filter((form, i, all) => all.indexOf(form) === i);
+
+      const found = (kind: SuppressionEntryKind, value: string): SuppressionMatch | null => {
+        const list = index[kind].get(value);
+        return list ? { listId: list.id, listName: list.name, source: list.source, matchedBy: kind } : null;
+      };
+
+      let match = found('address', canonical);
+      if (!hashed) return match;
+      forms.forEach(form => {
+        match = match
+          ?? found('sha256', createHash('sha256').update(form).digest('hex'))
+          ?? found('md5', createHash('md5').update(form).digest('hex'));
+      });
+      return match;
+    }
+  };
+}
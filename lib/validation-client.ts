@@ -0,0 +1,67 @@
+import { MAX_BATCH_SIZE } from '@/lib/batch-limits';
+import type { BatchItem } from '@/lib/batch-validation';
+import type { ScoringProfileId } from '@/lib/scoring-profiles';
+import type { EmailValidationResult } from '@/lib/validation-result';
+
+// Browser-side entry point: DNS and SMTP checks need the server, so pages
+// validate through the /api/validate route instead of calling validateEmail.
+// Aborting `signal` cancels the request and the server's checks with it;
+// `refresh` re-verifies an address the server has a recent verdict for.
+export async function requestValidation(
+  email: string,
+  profile?: ScoringProfileId,
+  signal?: AbortSignal,
+  refresh = false
+): Promise<EmailValidationResult> {
+  const response = await fetch('/api/validate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, profile, refresh }),
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`Validation request failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// Validate a list through the streaming batch route, yielding each result as
+// the server finishes it. `index` refers to the position in `emails`.
+export async function* streamBatchValidation(
+  emails: string[],
+  profile?: ScoringProfileId,
+  signal?: AbortSignal,
+  refresh = false
+): AsyncGenerator<BatchItem> {
+  for (let offset = 0; offset < emails.length; offset += MAX_BATCH_SIZE) {
+    const response = await fetch('/api/validate/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ emails: emails.slice(offset, offset + MAX_BATCH_SIZE), profile, refresh }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Batch validation request failed with status ${response.status}`);
+    }
+
+    // One JSON object per line; a chunk may end mid-line
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) continue;
+        const item: BatchItem = JSON.parse(lines[i]);
+        yield { ...item, index: item.index + offset };
+      }
+      if (done) break;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { AddressParseMode, parseAddress } from '@/lib/address-parser';
+import { normalizeEmail } from '@/lib/normalize-email';
+import type { ScoringProfileId } from '@/lib/scoring-profiles';
+import type { CheckReason, EmailChecks, EmailStatus } from '@/lib/validation-result';
+
+// Past verdicts, so an address checked recently is not probed all over
+// again. validateEmail serves a verdict from history while it is younger
+// than the re-verification window, unless asked to refresh.
+
+export const DEFAULT_HISTORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A verdict that rests on a server putting off its answer (greylisting,
+// timeouts, temporary failures) is only served for a few minutes: a retry
+// soon after may well get the real one
+export const UNSETTLED_HISTORY_WINDOW_MS = 10 * 60 * 1000;
+
+export const UNSETTLED_REASONS: CheckReason[] = [
+  'greylisted', 'smtp_timeout', 'smtp_unavailable', 'smtp_connection_failed',
+  'dns_timeout', 'dns_error', 'check_timeout'
+];
+
+// What history keeps of a result: the verdict on the mailbox. The address
+// as typed, its parse and suggestion belong to each request and are rebuilt
+// from it; details of the lookups (MX hosts, DNS reports, SMTP replies) are
+// not kept.
+export interface HistoryVerdict {
+  checks: EmailChecks;
+  score: number;
+  status: EmailStatus;
+  validatedAt: string;
+  // Latest bounce on record when the checks ran
+  bouncedAt: string | null;
+}
+
+export interface ValidationHistory {
+  // Latest verdict recorded under `key` (see historyKey) for the profile, if
+  // it is at most `maxAgeMs` old
+  lookup(key: string, profile: ScoringProfileId, maxAgeMs: number): Promise<HistoryVerdict | null>;
+  record(key: string, profile: ScoringProfileId, verdict: HistoryVerdict): Promise<void>;
+}
+
+// Spellings of one mailbox share their history, within one syntax mode:
+// input only the lenient parser accepts ("<jane@example.com>") is its own
+// entry under strict, as it fails there
+export function historyKey(email: string, syntaxMode: AddressParseMode): string {
+  const canonical = parseAddress(email, syntaxMode).ok ? normalizeEmail(email) : null;
+  return `${syntaxMode}:${(canonical ?? email.trim()).toLowerCase()}`;
+}
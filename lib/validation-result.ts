@@ -0,0 +1,178 @@
+import type { AddressSyntaxError, ParsedAddress } from '@/lib/address-parser';
+import type { BounceRecord } from '@/lib/bounces';
+import type { CatchAllVerdict } from '@/lib/catch-all';
+import type { DisposableMatch } from '@/lib/disposable-domains';
+import type { DnsblReport } from '@/lib/dnsbl';
+import type { DomainHealthReport } from '@/lib/domain-health';
+import type { GibberishScore } from '@/lib/gibberish';
+import type { MxRecord } from '@/lib/dns-resolver';
+import type { MailProvider } from '@/lib/mx-providers';
+import type { OverrideRule } from '@/lib/overrides';
+import type { ScoringProfileId } from '@/lib/scoring-profiles';
+import type { SmtpCheckResult } from '@/lib/smtp-prober';
+import type { SuppressionMatch } from '@/lib/suppressions';
+
+// Shape of a validation result. Kept apart from the engine so client pages
+// can use it without bundling the engine's datasets.
+
+// Outcome of a single check. `unknown` means the check could not reach a
+// verdict (timeouts, greylisting, skipped) and must not be read as a failure.
+export type CheckStatus = 'pass' | 'fail' | 'warning' | 'unknown';
+
+export type CheckReason =
+  | 'ok'
+  | 'not_checked'
+  | 'invalid_syntax'
+  | 'invalid_domain'
+  | 'ip_literal'
+  | 'domain_not_found'
+  | 'mx_not_found'
+  | 'implicit_mx'
+  | 'null_mx'
+  | 'dns_timeout'
+  | 'dns_error'
+  | 'disposable_domain'
+  | 'free_provider'
+  | 'role_account'
+  | 'gibberish_local_part'
+  | 'catch_all'
+  | 'catch_all_inconclusive'
+  | 'mailbox_not_found'
+  | 'greylisted'
+  | 'smtp_timeout'
+  | 'smtp_connection_failed'
+  | 'smtp_blocked'
+  | 'smtp_unavailable'
+  | 'smtputf8_unsupported'
+  | 'no_mail_auth'
+  | 'broken_mail_auth'
+  | 'blocklisted'
+  | 'hard_bounce'
+  | 'soft_bounce'
+  | 'block_bounce'
+  | 'check_timeout';
+
+export interface CheckResult {
+  status: CheckStatus;
+  reason: CheckReason;
+}
+
+export interface EmailChecks {
+  syntax: CheckResult;
+  domain: CheckResult;
+  mx: CheckResult;
+  disposable: CheckResult;
+  freeProvider: CheckResult;
+  roleBased: CheckResult;
+  gibberish: CheckResult;
+  catchAll: CheckResult;
+  smtp: CheckResult;
+  domainHealth: CheckResult;
+  reputation: CheckResult;
+  bounces: CheckResult;
+}
+
+// One line of the score explanation
+export interface ScoreBreakdownItem {
+  check: keyof EmailChecks;
+  label: string;
+  status: CheckStatus;
+  reasonCode: CheckReason;
+  // Points earned out of maxPoints (zero for checks that can only cost points)
+  points: number;
+  maxPoints: number;
+  // Points withheld or deducted by this check
+  penalty: number;
+  reason: string;
+}
+
+// How the domain's mail hosts were found. "implicit_a": no MX records, so
+// mail goes to the domain's own A/AAAA address. "null_mx": the domain
+// publishes "MX 0 ." to refuse all mail (RFC 7505).
+export type MxOutcome = 'mx' | 'implicit_a' | 'null_mx' | 'nxdomain' | 'no_records';
+
+// do_not_contact only comes from a team override, suppressed from a
+// suppression list
+export type EmailStatus = 'valid' | 'risky' | 'invalid' | 'unknown' | 'do_not_contact' | 'suppressed';
+
+export const NOT_CHECKED: CheckResult = { status: 'unknown', reason: 'not_checked' };
+
+export interface EmailValidationResult extends EmailChecks {
+  // The address as submitted, and its provider-aware canonical form
+  email: string;
+  canonicalEmail: string | null;
+  address: ParsedAddress | null;
+  syntaxError: AddressSyntaxError | null;
+  // Team override that settled the verdict; no other check runs when one matches
+  override: OverrideRule | null;
+  // Suppression list the address is on; `verdict` is the status it would
+  // have had otherwise
+  suppression: (SuppressionMatch & { verdict: EmailStatus }) | null;
+  // Corrected address when the domain looks like a typo ("gmial.com")
+  suggestion: string | null;
+  // Which disposable list (and version) flagged the domain
+  disposableMatch: DisposableMatch | null;
+  // How random the local part looks (0-1) and the strongest signal
+  gibberishScore: GibberishScore | null;
+  mxRecords: MxRecord[];
+  mxOutcome: MxOutcome | null;
+  // Mailbox provider or security gateway recognized from the MX hosts
+  provider: MailProvider | null;
+  // SPF, DMARC, MTA-STS and TLS-RPT records, graded
+  domainHealthReport: DomainHealthReport | null;
+  // DNS blocklist listings for the MX addresses and the domain
+  dnsblReport: DnsblReport | null;
+  catchAllVerdict: CatchAllVerdict | null;
+  smtpProbe: SmtpCheckResult | null;
+  // Bounce on record that weighs most on the address
+  bounce: BounceRecord | null;
+  score: number;
+  status: EmailStatus;
+  // Scoring profile that produced score and status
+  profile: ScoringProfileId;
+  breakdown: ScoreBreakdownItem[];
+  // When the checks ran, and whether this is a verdict served from history
+  validatedAt: string | null;
+  cached: boolean;
+}
+
+// Result for an address no check has looked at yet
+export function unverifiedResult(email: string, profile: ScoringProfileId = 'balanced'): EmailValidationResult {
+  return {
+    email,
+    canonicalEmail: null,
+    address: null,
+    syntaxError: null,
+    override: null,
+    suppression: null,
+    suggestion: null,
+    disposableMatch: null,
+    syntax: NOT_CHECKED,
+    domain: NOT_CHECKED,
+    mx: NOT_CHECKED,
+    mxRecords: [],
+    mxOutcome: null,
+    provider: null,
+    domainHealth: NOT_CHECKED,
+    domainHealthReport: null,
+    reputation: NOT_CHECKED,
+    dnsblReport: null,
+    disposable: NOT_CHECKED,
+    freeProvider: NOT_CHECKED,
+    roleBased: NOT_CHECKED,
+    gibberish: NOT_CHECKED,
+    gibberishScore: null,
+    catchAll: NOT_CHECKED,
+    catchAllVerdict: null,
+    smtp: NOT_CHECKED,
+    smtpProbe: null,
+    bounces: NOT_CHECKED,
+    bounce: null,
+    score: 0,
+    status: 'unknown',
+    profile,
+    breakdown: [],
+    validatedAt: null,
+    cached: false
+  };
+}
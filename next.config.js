@@ -1,10 +1,11 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  output: 'export',
   eslint: {
     ignoreDuringBuilds: true,
   },
   images: { unoptimized: true },
+  // Loads its WebAssembly build from its own directory at runtime
+  serverExternalPackages: ['sql.js'],
 };
 
 module.exports = nextConfig;
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AddressParseMode, AddressSyntaxErrorCode, parseAddress } from '@/lib/address-parser';
+
+function parsed(input: string, mode: AddressParseMode = 'strict') {
+  const result = parseAddress(input, mode);
+  assert.ok(result.ok, `${input} should parse in ${mode} mode`);
+  return result.address;
+}
+
+function syntaxError(input: string, mode: AddressParseMode = 'strict') {
+  const result = parseAddress(input, mode);
+  assert.ok(!result.ok, `${input} should not parse in ${mode} mode`);
+  return result.error;
+}
+
+function assertError(input: string, code: AddressSyntaxErrorCode, position: number, mode: AddressParseMode = 'strict') {
+  const error = syntaxError(input, mode);
+  assert.equal(error.code, code, input);
+  assert.equal(error.position, position, input);
+}
+
+describe('parseAddress', () => {
+  it('splits a dot-atom address', () => {
+    const address = parsed('john.doe+news@mail.example.com');
+    assert.equal(address.localPart, 'john.doe+news');
+    assert.equal(address.domain, 'mail.example.com');
+    assert.equal(address.isQuoted, false);
+    assert.equal(address.isIpLiteral, false);
+  });
+
+  it('accepts quoted local parts with spaces and escapes', () => {
+    const address = parsed('"john doe"@example.com');
+    assert.equal(address.isQuoted, true);
+    assert.equal(address.localPart, '"john doe"');
+    assert.equal(parsed('"a\\"b"@example.com').isQuoted, true);
+    assertError('"john@example.com', 'unterminated_quote', 0);
+  });
+
+  it('accepts IPv4 and IPv6 literal domains', () => {
+    assert.equal(parsed('postmaster@[192.0.2.1]').isIpLiteral, true);
+    assert.equal(parsed('postmaster@[IPv6:2001:db8::1]').domain, '[IPv6:2001:db8::1]');
+    assertError('postmaster@[300.0.2.1]', 'invalid_ip_literal', 12);
+    assertError('postmaster@[192.0.2.1', 'unterminated_ip_literal', 11);
+  });
+
+  it('skips comments around the local part and domain', () => {
+    const address = parsed('(work) john@(primary)example.com');
+    assert.equal(address.localPart, 'john');
+    assert.equal(address.domain, 'example.com');
+    assertError('john(note@example.com', 'unterminated_comment', 4);
+  });
+
+  it('reports where the address goes wrong', () => {
+    assertError('', 'empty', 0);
+    assertError('john.example.com', 'missing_at', 16);
+    assertError('@example.com', 'empty_local_part', 0);
+    assertError('john@', 'empty_domain', 5);
+    assertError('.john@example.com', 'leading_dot', 0);
+    assertError('john.@example.com', 'trailing_dot', 4);
+    assertError('jo..hn@example.com', 'consecutive_dots', 3);
+    assertError('john@example..com', 'consecutive_dots', 13);
+    assertError('john@-example.com', 'invalid_label', 5);
+    assertError('jo hn@example.com', 'invalid_character', 3);
+  });
+
+  it('enforces the RFC 5321 length limits', () => {
+    const local = 'a'.repeat(65);
+    assertError(`${local}@example.com`, 'local_part_too_long', 0);
+    assertError(`john@${'a'.repeat(64)}.com`, 'label_too_long', 5);
+    const domain = Array(5).fill('a'.repeat(62)).join('.');
+    assert.equal(syntaxError(`john@${domain}`).code, 'domain_too_long');
+    assert.equal(parsed(`${'a'.repeat(64)}@example.com`).localPart.length, 64);
+  });
+
+  it('accepts what mail servers take in lenient mode', () => {
+    assert.equal(parsed('  <john@example.com>  ', 'lenient').domain, 'example.com');
+    assert.equal(parsed('taro..@example.jp', 'lenient').localPart, 'taro..');
+    assert.equal(parsed('john@example.com.', 'lenient').domain, 'example.com');
+    assert.equal(parsed('john@my_host.example.com', 'lenient').domain, 'my_host.example.com');
+    assert.equal(parsed(`${'a'.repeat(65)}@example.com`, 'lenient').localPart.length, 65);
+
+    assertError('taro..@example.jp', 'consecutive_dots', 5);
+    assertError('john@my_host.example.com', 'invalid_label', 5);
+    // Positions still point into the untrimmed input
+    assertError('  <jo hn@example.com>', 'invalid_character', 6, 'lenient');
+  });
+});
@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BatchItem, BatchValidationOptions, validateBatch } from '@/lib/batch-validation';
+import type { CatchAllCache } from '@/lib/catch-all';
+import { createCachingDnsResolver, createDnsError, createMemoryDnsResolver, DnsResolver } from '@/lib/dns-resolver';
+import { createSmtpError, SmtpProber, SmtpReply } from '@/lib/smtp-prober';
+
+const resolver = createMemoryDnsResolver({
+  'a.test': { mx: [{ exchange: 'mx.a.test', priority: 10 }] },
+  'b.test': { mx: [{ exchange: 'mx.b.test', priority: 10 }] },
+  'c.test': { mx: [{ exchange: 'mx.c.test', priority: 10 }] }
+});
+
+// Every domain already known to reject unknown mailboxes, so sessions only
+// carry the one RCPT TO
+const catchAllCache: CatchAllCache = { get: () => 'rejecting', set: () => undefined };
+
+const ACCEPTED: SmtpReply = { code: 250, enhancedCode: '2.1.5', message: 'OK' };
+
+// Mail servers that accept every mailbox after `delays[address]` ms, or
+// never when it is null. Records when sessions start, how many are open at
+// once and which were cut off by an abort.
+function createRecordingProber(delays: Record<string, number | null> = {}) {
+  const starts: Array<{ host: string; at: number }> = [];
+  const aborted: string[] = [];
+  const open: Record<string, number> = {};
+  let maxOpen = 0;
+  let maxOpenPerHost = 0;
+
+  const smtpProber: SmtpProber = {
+    connect: async (host, options) => {
+      starts.push({ host, at: Date.now() });
+      open[host] = (open[host] ?? 0) + 1;
+      maxOpenPerHost = Math.max(maxOpenPerHost, open[host]);
+      maxOpen = Math.max(maxOpen, Object.keys(open).reduce((total, key) => total + open[key], 0));
+      return {
+        host,
+        extensions: [],
+        rcptTo: address => new Promise<SmtpReply>((resolve, reject) => {
+          const delay = address in delays ? delays[address] : 10;
+          if (delay !== null) setTimeout(() => resolve(ACCEPTED), delay);
+          options?.signal?.addEventListener('abort', () => {
+            aborted.push(address);
+            reject(createSmtpError('timeout', host));
+          });
+        }),
+        close: async () => {
+          open[host]--;
+        }
+      };
+    }
+  };
+  return { smtpProber, starts, aborted, stats: () => ({ maxOpen, maxOpenPerHost }) };
+}
+
+async function collect(emails: string[], options: BatchValidationOptions): Promise<BatchItem[]> {
+  const items: BatchItem[] = [];
+  for await (const item of validateBatch(emails, options)) items.push(item);
+  return items;
+}
+
+describe('createCachingDnsResolver', () => {
+  // Fails the first `failures` MX lookups with `code`, then answers
+  function createFlakyResolver(code: 'NXDOMAIN' | 'TIMEOUT' | 'SERVFAIL', failures: number) {
+    let calls = 0;
+    const flaky: DnsResolver = {
+      ...resolver,
+      resolveMx: async domain => {
+        calls++;
+        if (calls <= failures) throw createDnsError(code, domain);
+        return resolver.resolveMx(domain);
+      }
+    };
+    return { resolver: createCachingDnsResolver(flaky), calls: () => calls };
+  }
+
+  it('shares one lookup between concurrent and later callers', async () => {
+    const flaky = createFlakyResolver('TIMEOUT', 0);
+    await Promise.all([flaky.resolver.resolveMx('a.test'), flaky.resolver.resolveMx('A.test.')]);
+    await flaky.resolver.resolveMx('a.test');
+    assert.equal(flaky.calls(), 1);
+  });
+
+  it('remembers NXDOMAIN', async () => {
+    const flaky = createFlakyResolver('NXDOMAIN', 1);
+    await assert.rejects(flaky.resolver.resolveMx('a.test'), { code: 'NXDOMAIN' });
+    await assert.rejects(flaky.resolver.resolveMx('a.test'), { code: 'NXDOMAIN' });
+    assert.equal(flaky.calls(), 1);
+  });
+
+  it('retries a lookup that timed out or hit a server failure', async () => {
+    const timedOut = createFlakyResolver('TIMEOUT', 1);
+    await assert.rejects(timedOut.resolver.resolveMx('a.test'), { code: 'TIMEOUT' });
+    assert.deepEqual(await timedOut.resolver.resolveMx('a.test'), [{ exchange: 'mx.a.test', priority: 10 }]);
+    assert.equal(timedOut.calls(), 2);
+
+    const failed = createFlakyResolver('SERVFAIL', 1);
+    await assert.rejects(failed.resolver.resolveMx('a.test'), { code: 'SERVFAIL' });
+    await failed.resolver.resolveMx('a.test');
+    assert.equal(failed.calls(), 2);
+  });
+});
+
+describe('validateBatch', () => {
+  it('keeps to the overall and per-domain concurrency limits', async () => {
+    const prober = createRecordingProber();
+    const emails = ['1@a.test', '2@a.test', '3@a.test', '1@b.test', '2@b.test', '1@c.test', '2@c.test'];
+    const items = await collect(emails, {
+      resolver,
+      smtpProber: prober.smtpProber,
+      catchAllCache,
+      concurrency: 3,
+      perDomainConcurrency: 1,
+      perDomainIntervalMs: 0
+    });
+
+    assert.deepEqual(items.map(item => item.index).sort(), [0, 1, 2, 3, 4, 5, 6]);
+    assert.deepEqual(prober.stats(), { maxOpen: 3, maxOpenPerHost: 1 });
+  });
+
+  it('spaces out validations of one domain', async () => {
+    const prober = createRecordingProber();
+    await collect(['1@a.test', '2@a.test', '3@a.test', '1@b.test'], {
+      resolver,
+      smtpProber: prober.smtpProber,
+      catchAllCache,
+      perDomainIntervalMs: 60
+    });
+
+    const starts = prober.starts.filter(start => start.host === 'mx.a.test').map(start => start.at);
+    assert.equal(starts.length, 3);
+    // Sessions open a moment after their validation starts; allow for that
+    assert.ok(starts[1] - starts[0] >= 50, `${starts[1] - starts[0]}ms apart`);
+    assert.ok(starts[2] - starts[1] >= 50, `${starts[2] - starts[1]}ms apart`);
+    // Other domains are not held back
+    assert.ok(prober.starts.find(start => start.host === 'mx.b.test')!.at < starts[1]);
+  });
+
+  it('yields results as they finish, with their input position', async () => {
+    const prober = createRecordingProber({ 'slow@a.test': 150, 'fast@b.test': 0 });
+    const items = await collect(['slow@a.test', 'fast@b.test'], { resolver, smtpProber: prober.smtpProber, catchAllCache });
+
+    assert.deepEqual(items.map(({ index, email }) => ({ index, email })), [
+      { index: 1, email: 'fast@b.test' },
+      { index: 0, email: 'slow@a.test' }
+    ]);
+    assert.deepEqual(items[1].result.smtp, { status: 'pass', reason: 'ok' });
+  });
+
+  it('rejects with the signal\'s reason when aborted', async () => {
+    const prober = createRecordingProber({ 'stuck@b.test': null });
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+
+    await assert.rejects(async () => {
+      for await (const item of validateBatch(['ok@a.test', 'stuck@b.test'], {
+        resolver,
+        smtpProber: prober.smtpProber,
+        catchAllCache,
+        signal: controller.signal
+      })) {
+        assert.equal(item.email, 'ok@a.test');
+        controller.abort(reason);
+      }
+    }, reason);
+    assert.deepEqual(prober.aborted, ['stuck@b.test']);
+  });
+
+  it('aborts validations in flight when the caller stops iterating', async () => {
+    const prober = createRecordingProber({ 'stuck@b.test': null, 'stuck@c.test': null });
+    const batch = validateBatch(['ok@a.test', 'stuck@b.test', 'stuck@c.test'], {
+      resolver,
+      smtpProber: prober.smtpProber,
+      catchAllCache
+    });
+
+    const first = await batch.next();
+    assert.equal(first.done, false);
+    assert.deepEqual(await batch.return(undefined), { done: true, value: undefined });
+    assert.deepEqual(prober.aborted.sort(), ['stuck@b.test', 'stuck@c.test']);
+  });
+});
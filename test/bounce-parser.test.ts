@@ -0,0 +1,226 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { classifyBounce, parseBounceMessage, parseBounces } from '@/lib/bounce-parser';
+
+// RFC 3464 report as Postfix sends it
+const POSTFIX_DSN = `From: MAILER-DAEMON@mail.example.org (Mail Delivery System)
+To: sender@example.org
+Subject: Undelivered Mail Returned to Sender
+Date: Tue, 3 Mar 2026 10:15:02 +0000
+MIME-Version: 1.0
+Content-Type: multipart/report; report-type=delivery-status;
+	boundary="8B2C61A0E3.1772532902/mail.example.org"
+
+--8B2C61A0E3.1772532902/mail.example.org
+Content-Description: Notification
+Content-Type: text/plain; charset=us-ascii
+
+This is the mail system at host mail.example.org.
+
+I'm sorry to have to inform you that your message could not
+be delivered to one or more recipients.
+
+<nobody@example.com>: host mx.example.com[192.0.2.10] said: 550 5.1.1
+    <nobody@example.com>: Recipient address rejected: User unknown in virtual
+    mailbox table (in reply to RCPT TO command)
+
+--8B2C61A0E3.1772532902/mail.example.org
+Content-Description: Delivery report
+Content-Type: message/delivery-status
+
+Reporting-MTA: dns; mail.example.org
+X-Postfix-Queue-ID: 8B2C61A0E3
+Arrival-Date: Tue,  3 Mar 2026 10:15:01 +0000 (UTC)
+
+Final-Recipient: rfc822; nobody@example.com
+Original-Recipient: rfc822;nobody@example.com
+Action: failed
+Status: 5.1.1
+Remote-MTA: dns; mx.example.com
+Diagnostic-Code: smtp; 550 5.1.1 <nobody@example.com>: Recipient address
+    rejected: User unknown in virtual mailbox table
+
+--8B2C61A0E3.1772532902/mail.example.org
+Content-Description: Undelivered Message
+Content-Type: message/rfc822
+
+From: sender@example.org
+To: nobody@example.com
+Subject: Hello
+
+Hi there
+
+--8B2C61A0E3.1772532902/mail.example.org--
+`;
+
+// Office 365 report for a recipient its directory-based edge blocking rejected
+const O365_DSN = `From: postmaster@contoso.onmicrosoft.com
+To: sender@example.org
+Subject: Undeliverable: Hello
+Date: Wed, 4 Mar 2026 08:00:00 +0000
+MIME-Version: 1.0
+Content-Type: multipart/report; report-type=delivery-status;
+	boundary="_000_O365NDR_"
+
+--_000_O365NDR_
+Content-Type: text/plain; charset="us-ascii"
+
+Your message to alice@contoso.com couldn't be delivered.
+alice wasn't found at contoso.com.
+
+--_000_O365NDR_
+Content-Type: message/delivery-status
+
+Reporting-MTA: dns;DM6NAM11HT123.mail.protection.outlook.com
+Received-From-MTA: dns;mail.example.org
+Arrival-Date: Wed, 4 Mar 2026 07:59:58 +0000
+
+Original-Recipient: rfc822;alice@contoso.com
+Final-Recipient: rfc822;alice@contoso.com
+Action: failed
+Status: 5.4.1
+Diagnostic-Code: smtp;550 5.4.1 Recipient address rejected: Access denied. AS(201806281) [DM6NAM11HT123.eop-nam11.prod.protection.outlook.com]
+
+--_000_O365NDR_--
+`;
+
+// Older Exchange non-delivery report without a delivery-status part
+const EXCHANGE_NDR = `From: Microsoft Exchange <postmaster@fabrikam.com>
+To: sender@example.org
+Subject: Undeliverable: Quarterly report
+Date: Thu, 5 Mar 2026 12:30:00 +0100
+Content-Type: text/plain; charset="us-ascii"
+
+Delivery has failed to these recipients or groups:
+
+carol@fabrikam.com
+The e-mail address you entered couldn't be found. Please check the recipient's e-mail address and try to resend the message.
+
+Diagnostic information for administrators:
+
+Generating server: EX01.fabrikam.com
+
+carol@fabrikam.com
+#550 5.1.1 RESOLVER.ADR.RecipNotFound; not found ##
+`;
+
+// Gmail notices: an unknown mailbox, a spam refusal and a delay
+const GMAIL_NOT_FOUND = `From: Mail Delivery Subsystem <mailer-daemon@googlemail.com>
+To: sender@gmail.com
+Subject: Delivery Status Notification (Failure)
+Date: Fri, 6 Mar 2026 09:00:00 -0800
+Content-Type: text/plain; charset="UTF-8"
+
+Address not found
+
+Your message wasn't delivered to dave@example.net because the address couldn't be found, or is unable to receive mail.
+
+The response from the remote server was:
+550 5.1.1 The email account that you tried to reach does not exist. Please try double-checking the recipient's email address for typos or unnecessary spaces.
+`;
+
+const GMAIL_BLOCKED = `From: Mail Delivery Subsystem <mailer-daemon@googlemail.com>
+To: sender@gmail.com
+Subject: Delivery Status Notification (Failure)
+Content-Type: text/plain; charset="UTF-8"
+
+Message not delivered
+
+There was a problem delivering your message to erin@example.net. See the technical details below.
+
+The response from the remote server was:
+550 5.7.1 [203.0.113.5] Our system has detected that this message is likely unsolicited mail.
+`;
+
+const GMAIL_DELAYED = `From: Mail Delivery Subsystem <mailer-daemon@googlemail.com>
+To: sender@gmail.com
+Subject: Delivery Status Notification (Delay)
+Content-Type: text/plain; charset="UTF-8"
+
+Delivery to the following recipient has been delayed:
+
+     frank@example.net
+
+Message will be retried for 2 more day(s)
+
+Technical details of temporary failure:
+The recipient server did not accept our requests to connect.
+`;
+
+describe('parseBounceMessage', () => {
+  it('reads a standard delivery status report, not the returned message', () => {
+    assert.deepEqual(parseBounceMessage(POSTFIX_DSN), [{
+      recipient: 'nobody@example.com',
+      status: '5.1.1',
+      diagnostic: '550 5.1.1 <nobody@example.com>: Recipient address rejected: User unknown in virtual mailbox table',
+      classification: 'hard',
+      format: 'dsn',
+      receivedAt: '2026-03-03T10:15:02.000Z'
+    }]);
+  });
+
+  it('classifies an Office 365 5.4.1 "Access denied" as a hard bounce', () => {
+    const [bounce] = parseBounceMessage(O365_DSN);
+    assert.equal(bounce.recipient, 'alice@contoso.com');
+    assert.equal(bounce.status, '5.4.1');
+    assert.equal(bounce.classification, 'hard');
+  });
+
+  it('reads an Exchange report from its text', () => {
+    const [bounce] = parseBounceMessage(EXCHANGE_NDR);
+    assert.equal(bounce.format, 'exchange');
+    assert.equal(bounce.recipient, 'carol@fabrikam.com');
+    assert.equal(bounce.status, '5.1.1');
+    assert.equal(bounce.classification, 'hard');
+  });
+
+  it('reads Gmail notices', () => {
+    const [notFound] = parseBounceMessage(GMAIL_NOT_FOUND);
+    assert.equal(notFound.format, 'gmail');
+    assert.equal(notFound.recipient, 'dave@example.net');
+    assert.equal(notFound.classification, 'hard');
+
+    const [blocked] = parseBounceMessage(GMAIL_BLOCKED);
+    assert.equal(blocked.recipient, 'erin@example.net');
+    assert.equal(blocked.status, '5.7.1');
+    assert.equal(blocked.classification, 'block');
+
+    const [delayed] = parseBounceMessage(GMAIL_DELAYED);
+    assert.equal(delayed.recipient, 'frank@example.net');
+    assert.equal(delayed.classification, 'soft');
+  });
+
+  it('returns nothing for a message that is not a bounce', () => {
+    assert.deepEqual(parseBounceMessage('From: a@example.org\nSubject: Hi\n\nHello\n'), []);
+  });
+});
+
+describe('parseBounces', () => {
+  it('splits an mbox archive into its messages', () => {
+    const mbox = [O365_DSN, EXCHANGE_NDR].map(message => `From MAILER-DAEMON Thu Mar  5 12:30:00 2026\n${message}`).join('\n');
+    assert.deepEqual(parseBounces(mbox).map(bounce => bounce.recipient), ['alice@contoso.com', 'carol@fabrikam.com']);
+  });
+});
+
+describe('classifyBounce', () => {
+  it('goes by the status code before the wording', () => {
+    assert.equal(classifyBounce('5.1.1', '550 5.1.1 Blocked: user unknown'), 'hard');
+    assert.equal(classifyBounce('5.4.1', '550 5.4.1 Recipient address rejected: Access denied'), 'hard');
+    assert.equal(classifyBounce('5.7.1', '550 5.7.1 Message rejected'), 'block');
+    assert.equal(classifyBounce('4.7.0', '421 4.7.0 Try again later'), 'block');
+    assert.equal(classifyBounce('5.2.2', '552 5.2.2 Mailbox full'), 'soft');
+    assert.equal(classifyBounce('4.4.1', '451 4.4.1 No answer from host'), 'soft');
+  });
+
+  it('reads the wording when there is no specific code', () => {
+    assert.equal(classifyBounce(null, 'Your IP is listed on Spamhaus'), 'block');
+    assert.equal(classifyBounce('5.0.0', '554 rejected for policy reasons'), 'block');
+    assert.equal(classifyBounce('5.0.0', '552 Mailbox is full'), 'soft');
+    assert.equal(classifyBounce('4.0.0', '450 Requested action not taken'), 'soft');
+    assert.equal(classifyBounce('5.0.0', '550 No such user'), 'hard');
+  });
+
+  it('treats a delayed delivery as soft', () => {
+    assert.equal(classifyBounce('5.0.0', 'Blocked', 'delayed'), 'soft');
+  });
+});
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatCsv, parseCsv } from '@/lib/csv';
+
+describe('CSV', () => {
+  it('quotes fields holding quotes, commas and line breaks', () => {
+    const csv = formatCsv([['"a b"@example.com', 'Acme, Inc.', 'line\nbreak', 'plain', null, 42]]);
+    assert.equal(csv, '"""a b""@example.com","Acme, Inc.","line\nbreak",plain,,42');
+  });
+
+  it('defuses cells a spreadsheet would run as a formula', () => {
+    const csv = formatCsv([['=HYPERLINK("http://evil.test")', '+1', '-2+3', '@SUM(A1)', '\tx', 'a=b', -5]]);
+    assert.equal(csv, `"'=HYPERLINK(""http://evil.test"")",'+1,'-2+3,'@SUM(A1),'\tx,a=b,-5`);
+  });
+
+  it('reads back what it writes', () => {
+    const rows = [['Email', 'Note'], ['"a b"@example.com', 'said "hi", left']];
+    assert.deepEqual(parseCsv(formatCsv(rows)), rows);
+  });
+});
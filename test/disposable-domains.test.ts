@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  BUILTIN_DISPOSABLE_LIST,
+  createDisposableMatcher,
+  getBuiltinDisposableMatcher,
+  parseDisposableList
+} from '@/lib/disposable-domains';
+import { isDisposableEmail } from '@/lib/email-validation';
+
+describe('disposable domain matching', () => {
+  const team = parseDisposableList('# our own\nthrowaway.test\n*.burner.test  # subdomains only\n\n', 'v2', 'team');
+  const matcher = createDisposableMatcher([{ version: 'v1', source: 'base', domains: ['mailinator.com'] }, team]);
+
+  it('matches a listed domain and every subdomain of it', () => {
+    assert.equal(matcher.match('mailinator.com')?.entry, 'mailinator.com');
+    assert.equal(matcher.match('foo.bar.Mailinator.com.')?.entry, 'mailinator.com');
+    assert.equal(matcher.match('notmailinator.com'), null);
+  });
+
+  it('matches a wildcard entry on subdomains only', () => {
+    assert.equal(matcher.match('burner.test'), null);
+    assert.equal(matcher.match('x.burner.test')?.entry, '*.burner.test');
+  });
+
+  it('records which list flagged the domain', () => {
+    assert.deepEqual(matcher.match('throwaway.test'), { entry: 'throwaway.test', listVersion: 'v2', listSource: 'team' });
+    assert.deepEqual(matcher.lists, [{ version: 'v1', source: 'base' }, { version: 'v2', source: 'team' }]);
+  });
+
+  it('lets a later list win for the same entry', () => {
+    const merged = createDisposableMatcher([
+      { version: 'v1', source: 'base', domains: ['dup.test'] },
+      { version: 'v9', source: 'team', domains: ['DUP.test'] }
+    ]);
+    assert.equal(merged.match('dup.test')?.listSource, 'team');
+  });
+
+  it('ships a versioned built-in dataset of several thousand domains', () => {
+    assert.ok(BUILTIN_DISPOSABLE_LIST.version);
+    assert.ok(BUILTIN_DISPOSABLE_LIST.domains.length > 1000);
+    assert.equal(getBuiltinDisposableMatcher().match('inbox.mailinator.com')?.listVersion, BUILTIN_DISPOSABLE_LIST.version);
+    assert.equal(isDisposableEmail('someone@sub.mailinator.com'), true);
+    assert.equal(isDisposableEmail('someone@gmail.com'), false);
+  });
+});
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkDnsbl, DnsblList } from '@/lib/dnsbl';
+import { createMemoryDnsResolver } from '@/lib/dns-resolver';
+
+const LISTS: DnsblList[] = [
+  { zone: 'zen.spamhaus.org', kind: 'ip' },
+  { zone: 'dbl.spamhaus.org', kind: 'domain' }
+];
+
+const mx = [{ exchange: 'mx.example.test', priority: 10 }];
+
+describe('checkDnsbl', () => {
+  it('reports nothing for addresses the lists do not know', async () => {
+    const resolver = createMemoryDnsResolver({ 'mx.example.test': { a: ['192.0.2.1'] } });
+    const report = await checkDnsbl('example.test', mx, resolver, LISTS);
+    assert.deepEqual(report, { listings: [], queries: 2, failures: 0 });
+  });
+
+  it('reports a 127.0.0.x answer as a listing', async () => {
+    const resolver = createMemoryDnsResolver({
+      'mx.example.test': { a: ['192.0.2.1'] },
+      '1.2.0.192.zen.spamhaus.org': { a: ['127.0.0.2'] }
+    });
+    const report = await checkDnsbl('example.test', mx, resolver, LISTS);
+    assert.deepEqual(report.listings, [
+      { zone: 'zen.spamhaus.org', target: '192.0.2.1', host: 'mx.example.test', codes: ['127.0.0.2'] }
+    ]);
+  });
+
+  it('counts the 127.255.255.x refused code as a failed query, not a listing', async () => {
+    const resolver = createMemoryDnsResolver({
+      'mx.example.test': { a: ['192.0.2.1'] },
+      '1.2.0.192.zen.spamhaus.org': { a: ['127.255.255.254'] },
+      'example.test.dbl.spamhaus.org': { a: ['127.255.255.254'] }
+    });
+    const report = await checkDnsbl('example.test', mx, resolver, LISTS);
+    assert.deepEqual(report, { listings: [], queries: 2, failures: 2 });
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMemoryDnsResolver } from '@/lib/dns-resolver';
+import {
+  checkDomainHealth,
+  domainHealthStatus,
+  gradeDmarc,
+  gradeMtaSts,
+  gradeSpf,
+  gradeTlsRpt
+} from '@/lib/domain-health';
+
+describe('gradeSpf', () => {
+  it('accepts an enforcing record', () => {
+    assert.equal(gradeSpf('v=spf1 mx include:_spf.example.com -all').grade, 'good');
+    assert.equal(gradeSpf('v=spf1 redirect=_spf.example.com').grade, 'good');
+  });
+
+  it('flags permissive and open-ended records as weak', () => {
+    assert.equal(gradeSpf('v=spf1 mx ?all').grade, 'weak');
+    assert.equal(gradeSpf('v=spf1 +all').grade, 'weak');
+    assert.equal(gradeSpf('v=spf1 mx').grade, 'weak');
+  });
+
+  it('rejects unknown terms and more than ten lookups', () => {
+    assert.deepEqual(gradeSpf('v=spf1 bogus -all').issues, ['Unknown term "bogus"']);
+    const includes = Array.from({ length: 11 }, (_, i) => `include:s${i}.example.com`).join(' ');
+    assert.equal(gradeSpf(`v=spf1 ${includes} -all`).grade, 'invalid');
+  });
+});
+
+describe('gradeDmarc', () => {
+  it('grades by policy and percentage', () => {
+    assert.equal(gradeDmarc('v=DMARC1; p=reject').grade, 'good');
+    assert.equal(gradeDmarc('v=DMARC1; p=none; rua=mailto:d@example.com').grade, 'weak');
+    assert.equal(gradeDmarc('v=DMARC1; p=quarantine; pct=50').grade, 'weak');
+  });
+
+  it('rejects a missing policy or a malformed pct', () => {
+    assert.equal(gradeDmarc('v=DMARC1; rua=mailto:d@example.com').grade, 'invalid');
+    assert.equal(gradeDmarc('v=DMARC1; p=discard').grade, 'invalid');
+    assert.equal(gradeDmarc('v=DMARC1; p=reject; pct=150').grade, 'invalid');
+  });
+});
+
+describe('gradeMtaSts and gradeTlsRpt', () => {
+  it('require the id and rua tags', () => {
+    assert.equal(gradeMtaSts('v=STSv1; id=20240101T000000').grade, 'good');
+    assert.equal(gradeMtaSts('v=STSv1;').grade, 'invalid');
+    assert.equal(gradeTlsRpt('v=TLSRPTv1; rua=mailto:tls@example.com').grade, 'good');
+    assert.equal(gradeTlsRpt('v=TLSRPTv1; rua=ftp://example.com').grade, 'invalid');
+  });
+});
+
+describe('checkDomainHealth', () => {
+  const resolver = createMemoryDnsResolver({
+    'good.test': { txt: ['google-site-verification=abc', 'v=spf1 mx -all'] },
+    '_dmarc.good.test': { txt: ['v=DMARC1; p=reject'] },
+    '_mta-sts.good.test': { txt: ['v=STSv1; id=1'] },
+    '_smtp._tls.good.test': { txt: ['v=TLSRPTv1; rua=mailto:tls@good.test'] },
+    'dup.test': { txt: ['v=spf1 -all', 'v=spf1 mx -all'] },
+    '_dmarc.dup.test': { txt: ['v=DMARC1; p=none'] },
+    'parked.test': {},
+    'slow.test': { error: 'TIMEOUT' },
+    '_dmarc.slow.test': { error: 'SERVFAIL' }
+  });
+
+  it('grades each record and ignores unrelated TXT records', async () => {
+    const report = await checkDomainHealth('good.test', resolver);
+    assert.deepEqual(
+      [report.spf.grade, report.dmarc.grade, report.mtaSts.grade, report.tlsRpt.grade],
+      ['good', 'good', 'good', 'good']
+    );
+    assert.equal(report.spf.record, 'v=spf1 mx -all');
+    assert.equal(domainHealthStatus(report), 'pass');
+  });
+
+  it('treats more than one record as invalid', async () => {
+    const report = await checkDomainHealth('dup.test', resolver);
+    assert.deepEqual(report.spf.issues, ['2 records published']);
+    assert.equal(report.dmarc.grade, 'weak');
+    assert.equal(domainHealthStatus(report), 'invalid');
+  });
+
+  it('separates missing records from failed lookups', async () => {
+    assert.equal(domainHealthStatus(await checkDomainHealth('parked.test', resolver)), 'missing');
+    assert.equal(domainHealthStatus(await checkDomainHealth('slow.test', resolver)), 'unknown');
+  });
+});
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { suggestDomain } from '@/lib/domain-suggestions';
+
+describe('suggestDomain', () => {
+  it('corrects misspelled provider names and suffixes', () => {
+    assert.equal(suggestDomain('gmial.com'), 'gmail.com');
+    assert.equal(suggestDomain('hotmial.com'), 'hotmail.com');
+    assert.equal(suggestDomain('gmail.con'), 'gmail.com');
+    assert.equal(suggestDomain('yahoo.cmo'), 'yahoo.com');
+    assert.equal(suggestDomain('example.con'), 'example.com');
+  });
+
+  it('corrects a provider name under a real TLD it does not operate', () => {
+    ['gmail', 'hotmail', 'yahoo', 'icloud', 'aol', 'live', 'msn', 'qq'].forEach(name => {
+      assert.equal(suggestDomain(`${name}.co`), `${name}.com`, name);
+    });
+  });
+
+  it("leaves a provider's other country domains alone", () => {
+    ['outlook.de', 'yahoo.es', 'yahoo.co.uk', 'hotmail.es', 'gmx.at', 'yandex.com'].forEach(domain => {
+      assert.equal(suggestDomain(domain), null, domain);
+    });
+  });
+
+  it('leaves listed providers and unrelated domains alone', () => {
+    assert.equal(suggestDomain('gmail.com'), null);
+    assert.equal(suggestDomain('acme.com'), null);
+  });
+});
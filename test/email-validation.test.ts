@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { CHECKS } from '@/lib/checks';
+import { createMemoryDnsResolver } from '@/lib/dns-resolver';
+import { validateEmail, ValidationOptions } from '@/lib/email-validation';
+import { createNodeSmtpProber } from '@/lib/node-smtp-prober';
+import { getScoringProfile, SCORING_PROFILES, ScoringProfileId } from '@/lib/scoring-profiles';
+import type { HistoryVerdict, ValidationHistory } from '@/lib/validation-history';
+import type { CheckResult, EmailChecks, EmailStatus } from '@/lib/validation-result';
+import { FakeSmtpServer, startFakeSmtpServer } from './fake-smtp-server';
+
+describe('validateEmail', () => {
+  let server: FakeSmtpServer;
+  const resolver = createMemoryDnsResolver({
+    'example.test': { mx: [{ exchange: '127.0.0.1', priority: 10 }], txt: ['v=spf1 mx -all'] },
+    'nomail.test': {}
+  });
+
+  before(async () => {
+    server = await startFakeSmtpServer({ 'alice@example.test': '250 2.1.5 Ok' });
+  });
+  after(() => server.close());
+
+  const validate = (email: string, profile: ScoringProfileId, extra: Partial<ValidationOptions> = {}) => validateEmail(email, {
+    resolver,
+    smtpProber: createNodeSmtpProber({
+      heloName: 'prober.test',
+      mailFrom: 'verify@prober.test',
+      port: server.port,
+      commandTimeoutMs: 200,
+      allowPrivateAddresses: true
+    }),
+    dnsblLists: [],
+    scoringProfile: getScoringProfile(profile),
+    ...extra
+  });
+
+  // History holding one earlier verdict for alice@example.test, where every
+  // check but SMTP passed
+  const historyWith = (smtp: CheckResult, status: EmailStatus, minutesAgo: number): ValidationHistory => {
+    const checks = {} as EmailChecks;
+    CHECKS.forEach(definition => {
+      checks[definition.id] = definition.id === 'smtp' ? smtp : { status: 'pass', reason: 'ok' };
+    });
+    const verdict: HistoryVerdict = {
+      checks,
+      score: 90,
+      status,
+      validatedAt: new Date(Date.now() - minutesAgo * 60 * 1000).toISOString(),
+      bouncedAt: null
+    };
+    return { lookup: async () => verdict, record: async () => undefined };
+  };
+
+  // History that keeps whatever is recorded, by key and profile
+  const createMemoryHistory = (): ValidationHistory => {
+    const verdicts = new Map<string, HistoryVerdict>();
+    return {
+      lookup: async (key, profile) => verdicts.get(`${profile} ${key}`) ?? null,
+      record: async (key, profile, verdict) => {
+        verdicts.set(`${profile} ${key}`, verdict);
+      }
+    };
+  };
+
+  SCORING_PROFILES.forEach(({ id: profile }) => {
+    it(`reports a mailbox rejected with 550 5.1.1 as invalid under the ${profile} profile`, async () => {
+      const result = await validate('nobody@example.test', profile);
+      assert.deepEqual(result.smtp, { status: 'fail', reason: 'mailbox_not_found' });
+      assert.equal(result.status, 'invalid');
+    });
+  });
+
+  it('reports an accepted mailbox as valid under the signup profile', async () => {
+    const result = await validate('alice@example.test', 'signup');
+    assert.deepEqual(result.smtp, { status: 'pass', reason: 'ok' });
+    assert.equal(result.status, 'valid');
+  });
+
+  it('reports a malformed domain as invalid and gives the checks it skipped no credit', async () => {
+    const result = await validate('user@foo.c', 'balanced');
+    assert.deepEqual(result.domain, { status: 'fail', reason: 'invalid_domain' });
+    assert.equal(result.status, 'invalid');
+    result.breakdown
+      .filter(item => item.reasonCode === 'not_checked')
+      .forEach(item => assert.equal(item.points, 0, item.check));
+    assert.ok(result.score < 50);
+  });
+
+  it('reports a domain with neither MX nor address records as invalid', async () => {
+    const result = await validate('user@nomail.test', 'balanced');
+    assert.deepEqual(result.mx, { status: 'fail', reason: 'mx_not_found' });
+    assert.equal(result.status, 'invalid');
+  });
+
+  it('serves a settled verdict from history for the whole window', async () => {
+    const history = historyWith({ status: 'fail', reason: 'mailbox_not_found' }, 'invalid', 60 * 24);
+    const result = await validate('alice@example.test', 'balanced', { history });
+    assert.equal(result.cached, true);
+    assert.equal(result.status, 'invalid');
+  });
+
+  it('serves a greylisted verdict from history only for a few minutes', async () => {
+    const greylisted: CheckResult = { status: 'unknown', reason: 'greylisted' };
+
+    const recent = await validate('alice@example.test', 'balanced', { history: historyWith(greylisted, 'unknown', 2) });
+    assert.equal(recent.cached, true);
+
+    const stale = await validate('alice@example.test', 'balanced', { history: historyWith(greylisted, 'unknown', 30) });
+    assert.equal(stale.cached, false);
+    assert.equal(stale.status, 'valid');
+  });
+
+  it('serves another spelling the verdict around its own address', async () => {
+    const history = createMemoryHistory();
+    const first = await validate('alice@gmial.com', 'balanced', { history });
+    assert.equal(first.cached, false);
+
+    const result = await validate('Alice@GMIAL.com', 'balanced', { history });
+    assert.equal(result.cached, true);
+    assert.equal(result.status, first.status);
+    assert.equal(result.email, 'Alice@GMIAL.com');
+    assert.equal(result.address?.localPart, 'Alice');
+    assert.equal(result.canonicalEmail, 'Alice@gmial.com');
+    assert.equal(result.suggestion, 'Alice@gmail.com');
+  });
+
+  it('keeps strict and lenient verdicts apart', async () => {
+    const history = createMemoryHistory();
+    const strict = await validate('<alice@example.test>', 'balanced', { history });
+    assert.deepEqual(strict.syntax, { status: 'fail', reason: 'invalid_syntax' });
+
+    const lenient = await validate('<alice@example.test>', 'balanced', { history, syntaxMode: 'lenient' });
+    assert.equal(lenient.cached, false);
+    assert.equal(lenient.status, 'valid');
+
+    const plain = await validate('alice@example.test', 'balanced', { history });
+    assert.equal(plain.cached, false);
+    assert.equal(plain.status, 'valid');
+  });
+});
@@ -0,0 +1,57 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+
+// A scripted SMTP server on localhost for tests. RCPT TO replies are looked
+// up by mailbox; a mailbox mapped to null never gets an answer, which lets
+// tests run into the prober's command timeout.
+
+export interface FakeSmtpServer {
+  port: number;
+  // Every command line received, in order
+  commands: string[];
+  close(): Promise<void>;
+}
+
+export async function startFakeSmtpServer(mailboxes: Record<string, string | null>): Promise<FakeSmtpServer> {
+  const commands: string[] = [];
+  const sockets: Socket[] = [];
+
+  const server: Server = createServer(socket => {
+    sockets.push(socket);
+    socket.setEncoding('utf8');
+    socket.on('error', () => undefined);
+    socket.write('220 fake.test ESMTP\r\n');
+
+    let buffer = '';
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline = buffer.indexOf('\r\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        newline = buffer.indexOf('\r\n');
+        commands.push(line);
+
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-fake.test\r\n250 SMTPUTF8\r\n');
+        else if (verb === 'MAIL') socket.write('250 2.1.0 Ok\r\n');
+        else if (verb === 'QUIT') socket.end('221 2.0.0 Bye\r\n');
+        else if (verb === 'RCPT') {
+          const mailbox = line.slice(line.indexOf('<') + 1, line.lastIndexOf('>')).toLowerCase();
+          const reply = mailbox in mailboxes ? mailboxes[mailbox] : '550 5.1.1 User unknown';
+          if (reply !== null) socket.write(`${reply}\r\n`);
+        } else socket.write('502 5.5.2 Command not recognized\r\n');
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    close() {
+      sockets.forEach(socket => socket.destroy());
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
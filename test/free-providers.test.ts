@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BUILTIN_DISPOSABLE_LIST } from '@/lib/disposable-domains';
+import { FREE_PROVIDER_LIST, isFreeProvider } from '@/lib/free-providers';
+
+describe('isFreeProvider', () => {
+  it('knows global and regional webmail providers', () => {
+    ['gmail.com', 'yahoo.com', 'outlook.com', 'web.de', 'qq.com', 'yandex.ru'].forEach(domain => {
+      assert.equal(isFreeProvider(domain), true, domain);
+    });
+  });
+
+  it('ignores case and a trailing root dot', () => {
+    assert.equal(isFreeProvider(' GMail.com. '), true);
+  });
+
+  it('does not flag business domains or subdomains of providers', () => {
+    assert.equal(isFreeProvider('acme.com'), false);
+    assert.equal(isFreeProvider('corp.gmail.com'), false);
+  });
+
+  it('leaves disposable domains to the disposable check', () => {
+    const disposable = new Set(BUILTIN_DISPOSABLE_LIST.domains);
+    assert.deepEqual(FREE_PROVIDER_LIST.domains.filter(domain => disposable.has(domain)), []);
+  });
+});
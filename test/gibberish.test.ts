@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isGibberishEmail } from '@/lib/email-validation';
+import { scoreGibberish } from '@/lib/gibberish';
+
+describe('scoreGibberish', () => {
+  it('names the strongest signal', () => {
+    assert.deepEqual(scoreGibberish('asdfasdf'), { score: 1, signal: 'repeated_chunk' });
+    assert.deepEqual(scoreGibberish('qwertyuiop'), { score: 1, signal: 'keyboard_run' });
+    assert.deepEqual(scoreGibberish('xk2q9vpl'), { score: 1, signal: 'few_vowels' });
+    assert.deepEqual(scoreGibberish('a1b2c3d4'), { score: 1, signal: 'digit_mix' });
+  });
+
+  it('leaves ordinary names and short local parts alone', () => {
+    ['john.smith', 'mary1985', 'strengths', 'jo'].forEach(localPart => {
+      assert.ok(scoreGibberish(localPart).score < 0.7, localPart);
+    });
+  });
+
+  it('ignores tags and quotes', () => {
+    assert.equal(scoreGibberish('johnson+xk2q9vpl').score, 0);
+    assert.equal(scoreGibberish('"xk2q9vpl"').score, 1);
+  });
+});
+
+describe('isGibberishEmail', () => {
+  it('judges the local part against the threshold', () => {
+    assert.equal(isGibberishEmail('xk2q9vpl@example.com'), true);
+    assert.equal(isGibberishEmail('john.smith@example.com'), false);
+    assert.equal(isGibberishEmail('strengths@example.com'), false);
+    assert.equal(isGibberishEmail('strengths@example.com', 0.5), true);
+  });
+});
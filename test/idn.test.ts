@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatAddress, parseAddress } from '@/lib/address-parser';
+import { isAscii, toAsciiDomain, toUnicodeDomain } from '@/lib/idn';
+import { SmtpProber, verifyMailbox } from '@/lib/smtp-prober';
+
+describe('IDN domains', () => {
+  it('converts Unicode domains to punycode and back', () => {
+    assert.equal(toAsciiDomain('bücher.de'), 'xn--bcher-kva.de');
+    assert.equal(toAsciiDomain('例子.广告'), 'xn--fsqu00a.xn--4rr70v');
+    assert.equal(toAsciiDomain('Example.COM'), 'example.com');
+    assert.equal(toUnicodeDomain('xn--bcher-kva.de'), 'bücher.de');
+    assert.equal(toUnicodeDomain('XN--FSQU00A.xn--4rr70v'), '例子.广告');
+  });
+
+  it('leaves labels that are not valid punycode alone', () => {
+    assert.equal(toUnicodeDomain('xn--!!.example'), 'xn--!!.example');
+    assert.equal(isAscii('bücher'), false);
+  });
+});
+
+describe('internationalized addresses', () => {
+  it('parses a UTF-8 local part at an IDN domain', () => {
+    const result = parseAddress('用户@例子.广告');
+    assert.ok(result.ok);
+    assert.equal(result.address.requiresSmtpUtf8, true);
+    assert.equal(result.address.asciiDomain, 'xn--fsqu00a.xn--4rr70v');
+    assert.equal(formatAddress(result.address, 'ascii'), '用户@xn--fsqu00a.xn--4rr70v');
+  });
+
+  it('needs SMTPUTF8 only for a non-ASCII local part', () => {
+    const ascii = parseAddress('jose@bücher.de');
+    assert.ok(ascii.ok);
+    assert.equal(ascii.address.requiresSmtpUtf8, false);
+    assert.equal(formatAddress(ascii.address, 'unicode'), 'jose@bücher.de');
+
+    const utf8 = parseAddress('josé@xn--bcher-kva.de');
+    assert.ok(utf8.ok);
+    assert.equal(utf8.address.requiresSmtpUtf8, true);
+    assert.equal(formatAddress(utf8.address, 'unicode'), 'josé@bücher.de');
+  });
+
+  it('fails a UTF-8 mailbox on a server without SMTPUTF8', async () => {
+    let asked = false;
+    const prober: SmtpProber = {
+      connect: async host => ({
+        host,
+        extensions: ['PIPELINING'],
+        rcptTo: async () => {
+          asked = true;
+          return { code: 250, enhancedCode: null, message: 'Ok' };
+        },
+        close: async () => undefined
+      })
+    };
+    const probe = await verifyMailbox('josé@bücher.de', [{ exchange: 'mx.test', priority: 0 }], prober, { smtpUtf8: true });
+    assert.equal(probe.outcome, 'fail');
+    assert.equal(probe.smtpUtf8Supported, false);
+    assert.equal(asked, false);
+  });
+});
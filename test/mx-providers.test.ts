@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fingerprintMailProvider, fingerprintMxHost } from '@/lib/mx-providers';
+
+describe('fingerprintMxHost', () => {
+  it('recognises mailbox providers and security gateways', () => {
+    assert.deepEqual(fingerprintMxHost('example-com.mail.protection.outlook.com'), {
+      id: 'microsoft',
+      name: 'Microsoft 365',
+      category: 'mailbox'
+    });
+    assert.equal(fingerprintMxHost('mx0a-001234.pphosted.com')?.category, 'gateway');
+    assert.equal(fingerprintMxHost('eu-smtp-inbound-1.mimecast.com')?.id, 'mimecast');
+  });
+
+  it('tells consumer Gmail apart from Google Workspace', () => {
+    assert.deepEqual(fingerprintMxHost('gmail-smtp-in.l.google.com'), {
+      id: 'gmail',
+      name: 'Gmail',
+      category: 'mailbox'
+    });
+    assert.equal(fingerprintMxHost('alt1.gmail-smtp-in.l.google.com')?.id, 'gmail');
+    assert.equal(fingerprintMxHost('aspmx.l.google.com')?.name, 'Google Workspace');
+    assert.equal(fingerprintMxHost('smtp.google.com')?.id, 'google');
+    assert.equal(fingerprintMxHost('aspmx2.googlemail.com')?.id, 'google');
+  });
+
+  it('ignores case and a trailing dot', () => {
+    assert.equal(fingerprintMxHost('ASPMX.L.GOOGLE.COM.')?.id, 'google');
+  });
+
+  it('matches suffixes on label boundaries only', () => {
+    assert.equal(fingerprintMxHost('mx.notgoogle.com'), null);
+    assert.equal(fingerprintMxHost('mail.notgmail-smtp-in.l.google.com')?.id, 'google');
+    assert.equal(fingerprintMxHost('mail.example.com'), null);
+  });
+});
+
+describe('fingerprintMailProvider', () => {
+  it('uses the first MX host with a known fingerprint', () => {
+    const provider = fingerprintMailProvider([
+      { exchange: 'mx1.example.com', priority: 5 },
+      { exchange: 'example.mail.iphmx.com', priority: 10 },
+      { exchange: 'aspmx.l.google.com', priority: 20 }
+    ]);
+    assert.equal(provider?.id, 'cisco');
+  });
+
+  it('returns null when no host is known', () => {
+    assert.equal(fingerprintMailProvider([{ exchange: 'mx.example.com', priority: 10 }]), null);
+    assert.equal(fingerprintMailProvider([]), null);
+  });
+});
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMemoryDnsResolver, isDnsError } from '@/lib/dns-resolver';
+import { lookupMxRecords, validateEmail } from '@/lib/email-validation';
+
+const resolver = createMemoryDnsResolver({
+  'mail.test': { mx: [{ exchange: 'mx2.mail.test', priority: 20 }, { exchange: 'mx1.mail.test', priority: 10 }] },
+  'nomail.test': { mx: [{ exchange: '.', priority: 0 }], a: ['192.0.2.1'] },
+  'bare.test': { a: ['192.0.2.2'] },
+  'bare6.test': { aaaa: ['2001:db8::2'] },
+  'parked.test': {},
+  'slow.test': { error: 'TIMEOUT' }
+});
+
+describe('createMemoryDnsResolver', () => {
+  it('answers with the zone\'s records', async () => {
+    assert.deepEqual(await resolver.resolveMx('Mail.Test.'), [
+      { exchange: 'mx2.mail.test', priority: 20 },
+      { exchange: 'mx1.mail.test', priority: 10 }
+    ]);
+    assert.deepEqual(await resolver.resolve4('bare.test'), ['192.0.2.2']);
+  });
+
+  it('fails names without a zone with NXDOMAIN and missing records with NODATA', async () => {
+    await assert.rejects(resolver.resolveMx('missing.test'), error => isDnsError(error) && error.code === 'NXDOMAIN');
+    await assert.rejects(resolver.resolveMx('parked.test'), error => isDnsError(error) && error.code === 'NODATA');
+    await assert.rejects(resolver.resolve6('bare.test'), error => isDnsError(error) && error.code === 'NODATA');
+    await assert.rejects(resolver.resolveMx('slow.test'), error => isDnsError(error) && error.code === 'TIMEOUT');
+  });
+});
+
+describe('lookupMxRecords', () => {
+  it('orders MX hosts by preference', async () => {
+    const lookup = await lookupMxRecords('mail.test', resolver);
+    assert.equal(lookup.outcome, 'mx');
+    assert.deepEqual(lookup.check, { status: 'pass', reason: 'ok' });
+    assert.deepEqual(lookup.records.map(record => record.exchange), ['mx1.mail.test', 'mx2.mail.test']);
+  });
+
+  it('fails a null MX even when the domain has an A record', async () => {
+    const lookup = await lookupMxRecords('nomail.test', resolver);
+    assert.equal(lookup.outcome, 'null_mx');
+    assert.deepEqual(lookup.check, { status: 'fail', reason: 'null_mx' });
+    assert.deepEqual(lookup.records, []);
+  });
+
+  it('falls back to the A or AAAA record as an implicit MX', async () => {
+    const lookup = await lookupMxRecords('bare.test', resolver);
+    assert.equal(lookup.outcome, 'implicit_a');
+    assert.deepEqual(lookup.check, { status: 'warning', reason: 'implicit_mx' });
+    assert.deepEqual(lookup.records, [{ exchange: 'bare.test', priority: 0 }]);
+    assert.equal((await lookupMxRecords('bare6.test', resolver)).outcome, 'implicit_a');
+  });
+
+  it('fails a domain with neither MX nor address records', async () => {
+    const lookup = await lookupMxRecords('parked.test', resolver);
+    assert.equal(lookup.outcome, 'no_records');
+    assert.deepEqual(lookup.check, { status: 'fail', reason: 'mx_not_found' });
+  });
+
+  it('fails a domain that does not exist', async () => {
+    const lookup = await lookupMxRecords('missing.test', resolver);
+    assert.equal(lookup.outcome, 'nxdomain');
+    assert.deepEqual(lookup.check, { status: 'fail', reason: 'domain_not_found' });
+    assert.deepEqual(lookup.records, []);
+  });
+
+  it('leaves a timed-out lookup unknown', async () => {
+    const lookup = await lookupMxRecords('slow.test', resolver);
+    assert.equal(lookup.outcome, null);
+    assert.deepEqual(lookup.check, { status: 'unknown', reason: 'dns_timeout' });
+  });
+});
+
+describe('MX outcomes in validateEmail', () => {
+  const options = {
+    resolver,
+    smtpProber: { connect: async () => { throw new Error('a domain without mail hosts is never probed'); } }
+  };
+
+  it('reports a null MX domain as invalid', async () => {
+    const result = await validateEmail('jane@nomail.test', options);
+    assert.equal(result.mxOutcome, 'null_mx');
+    assert.equal(result.status, 'invalid');
+  });
+
+  it('reports a domain that does not exist as invalid', async () => {
+    const result = await validateEmail('jane@missing.test', options);
+    assert.equal(result.mxOutcome, 'nxdomain');
+    assert.equal(result.status, 'invalid');
+  });
+});
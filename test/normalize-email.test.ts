@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeEmail } from '@/lib/normalize-email';
+
+describe('normalizeEmail', () => {
+  it('folds Gmail spellings of one mailbox together', () => {
+    assert.equal(normalizeEmail('John.Doe+news@gmail.com'), 'johndoe@gmail.com');
+    assert.equal(normalizeEmail('johndoe@GoogleMail.com'), 'johndoe@gmail.com');
+    assert.equal(normalizeEmail('j.o.h.n.d.o.e@gmail.com'), 'johndoe@gmail.com');
+  });
+
+  it('strips tags but keeps dots where the provider only supports sub-addressing', () => {
+    assert.equal(normalizeEmail('Jane.Roe+promo@Outlook.com'), 'jane.roe@outlook.com');
+    assert.equal(normalizeEmail('ivan+x@yandex.com'), 'ivan@yandex.ru');
+  });
+
+  it('only lowercases the domain elsewhere', () => {
+    assert.equal(normalizeEmail('John.Doe+news@Example.COM'), 'John.Doe+news@example.com');
+  });
+
+  it('keeps quoted local parts literal, even at a provider', () => {
+    assert.equal(normalizeEmail('"John.Doe+x"@GMAIL.com'), '"John.Doe+x"@gmail.com');
+  });
+
+  it('returns the domain in punycode', () => {
+    assert.equal(normalizeEmail('Jose@Bücher.de'), 'Jose@xn--bcher-kva.de');
+  });
+
+  it('accepts lenient input and rejects what is not an address', () => {
+    assert.equal(normalizeEmail('  <jane+x@gmail.com>  '), 'jane@gmail.com');
+    assert.equal(normalizeEmail('not an address'), null);
+  });
+});
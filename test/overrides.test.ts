@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMemoryDnsResolver } from '@/lib/dns-resolver';
+import { validateEmail } from '@/lib/email-validation';
+import {
+  createOverrideMatcher,
+  formatOverridesCsv,
+  isOverrideError,
+  normalizeOverrideInput,
+  OverrideAction,
+  OverrideKind,
+  OverrideRule,
+  parseOverridesCsv
+} from '@/lib/overrides';
+
+function rule(kind: OverrideKind, pattern: string, action: OverrideAction, id = pattern): OverrideRule {
+  return { ...normalizeOverrideInput({ kind, pattern, action, note: '' }), id, createdAt: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('normalizeOverrideInput', () => {
+  it('stores addresses canonically, domains in punycode and patterns in lowercase', () => {
+    assert.equal(rule('address', 'John.Doe+news@GoogleMail.com', 'valid').pattern, 'johndoe@gmail.com');
+    assert.equal(rule('domain', '@Bücher.de', 'invalid').pattern, 'xn--bcher-kva.de');
+    assert.equal(rule('domain', '*.Example.com', 'invalid').pattern, '*.example.com');
+    assert.equal(rule('local_part', 'NoReply*', 'invalid').pattern, 'noreply*');
+  });
+
+  it('rejects unusable rules', () => {
+    [
+      { kind: 'ip', pattern: '192.0.2.1', action: 'invalid' },
+      { kind: 'domain', pattern: 'example.com', action: 'block' },
+      { kind: 'address', pattern: 'not an address', action: 'valid' },
+      { kind: 'local_part', pattern: 'a@b', action: 'valid' },
+      { kind: 'domain', pattern: '  ', action: 'valid' }
+    ].forEach(input => assert.throws(() => normalizeOverrideInput(input), isOverrideError));
+  });
+});
+
+describe('createOverrideMatcher', () => {
+  it('matches domains with their subdomains, and wildcards only subdomains', () => {
+    const matcher = createOverrideMatcher([rule('domain', 'example.com', 'invalid'), rule('domain', '*.corp.test', 'valid')]);
+    assert.equal(matcher.match('a@example.com')?.pattern, 'example.com');
+    assert.equal(matcher.match('a@mail.EXAMPLE.com')?.pattern, 'example.com');
+    assert.equal(matcher.match('a@notexample.com'), null);
+    assert.equal(matcher.match('a@eu.corp.test')?.pattern, '*.corp.test');
+    assert.equal(matcher.match('a@corp.test'), null);
+  });
+
+  it('matches local-part patterns and other spellings of an address', () => {
+    const matcher = createOverrideMatcher([rule('local_part', '*-bounces', 'invalid'), rule('address', 'johndoe@gmail.com', 'valid')]);
+    assert.equal(matcher.match('list-bounces@example.com')?.kind, 'local_part');
+    assert.equal(matcher.match('John.Doe+x@gmail.com')?.kind, 'address');
+    assert.equal(matcher.match('bounces@example.com'), null);
+  });
+
+  it('prefers the most specific kind, then the strictest action', () => {
+    const matcher = createOverrideMatcher([
+      rule('domain', 'example.com', 'do_not_contact'),
+      rule('local_part', 'sales', 'valid'),
+      rule('local_part', 'sales', 'invalid', 'strict'),
+      rule('address', 'sales@example.com', 'valid', 'exact')
+    ]);
+    assert.equal(matcher.match('sales@example.com')?.id, 'exact');
+    assert.equal(matcher.match('sales@example.org')?.id, 'strict');
+    assert.equal(matcher.match('info@example.com')?.action, 'do_not_contact');
+  });
+});
+
+describe('overrides CSV', () => {
+  it('round-trips rules, with or without a header', () => {
+    const rules = [rule('domain', 'example.com', 'invalid'), rule('local_part', 'noreply*', 'do_not_contact')];
+    const parsed = parseOverridesCsv(formatOverridesCsv(rules));
+    assert.deepEqual(parsed, rules.map(({ kind, pattern, action, note }) => ({ kind, pattern, action, note })));
+    assert.deepEqual(parseOverridesCsv('Domain,Example.com,Invalid,parked\n'), [
+      { kind: 'domain', pattern: 'example.com', action: 'invalid', note: 'parked' }
+    ]);
+  });
+
+  it('reports the row of a bad rule', () => {
+    assert.throws(() => parseOverridesCsv('type,pattern,action\ndomain,example.com,invalid\ndomain,example.org,block\n'), error =>
+      isOverrideError(error) && error.row === 3
+    );
+  });
+});
+
+describe('validateEmail with overrides', () => {
+  it('settles a matching address without any lookups', async () => {
+    const result = await validateEmail('info@example.com', {
+      resolver: createMemoryDnsResolver({}),
+      smtpProber: { connect: async () => { throw new Error('an overridden address is never probed'); } },
+      overrides: createOverrideMatcher([rule('domain', 'example.com', 'do_not_contact')])
+    });
+    assert.equal(result.status, 'do_not_contact');
+    assert.equal(result.score, 0);
+    assert.equal(result.override?.pattern, 'example.com');
+    assert.deepEqual(result.syntax, { status: 'pass', reason: 'ok' });
+  });
+});
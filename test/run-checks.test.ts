@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMemoryDnsResolver } from '@/lib/dns-resolver';
+import { validateEmail } from '@/lib/email-validation';
+import { createSmtpError, SmtpProber } from '@/lib/smtp-prober';
+
+const resolver = createMemoryDnsResolver({
+  'mail.test': { mx: [{ exchange: 'mx.mail.test', priority: 10 }] },
+  'mx.mail.test': { a: ['192.0.2.1'] }
+});
+
+// A mail server that never answers; the connection only ends when the
+// caller's signal aborts
+function createHangingProber(onConnect = () => {}) {
+  const aborted: string[] = [];
+  const smtpProber: SmtpProber = {
+    connect: (host, options) => new Promise((_, reject) => {
+      onConnect();
+      options?.signal?.addEventListener('abort', () => {
+        aborted.push(host);
+        reject(createSmtpError('timeout', host));
+      });
+    })
+  };
+  return { smtpProber, aborted };
+}
+
+describe('runChecks time budgets', () => {
+  it('reports a check that overruns its budget as unknown and aborts it', async () => {
+    const { smtpProber, aborted } = createHangingProber();
+    const result = await validateEmail('alice@mail.test', { resolver, smtpProber, checkTimeouts: { smtp: 20 } });
+
+    assert.deepEqual(result.smtp, { status: 'unknown', reason: 'check_timeout' });
+    assert.deepEqual(result.mx, { status: 'pass', reason: 'ok' });
+    assert.deepEqual(aborted, ['mx.mail.test']);
+  });
+
+  it('reports checks left at the deadline without running them', async () => {
+    const { smtpProber } = createHangingProber();
+    const started = Date.now();
+    const result = await validateEmail('alice@mail.test', { resolver, smtpProber, timeoutMs: 300 });
+
+    assert.ok(Date.now() - started < 5000);
+    assert.deepEqual(result.smtp, { status: 'unknown', reason: 'check_timeout' });
+    // Runs after smtp, by which time the deadline has passed
+    assert.deepEqual(result.catchAll, { status: 'unknown', reason: 'check_timeout' });
+    assert.deepEqual(result.syntax, { status: 'pass', reason: 'ok' });
+  });
+});
+
+describe('runChecks abort', () => {
+  it('rejects with the signal\'s reason and aborts running checks', async () => {
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+    const { smtpProber, aborted } = createHangingProber(() => setTimeout(() => controller.abort(reason)));
+
+    await assert.rejects(validateEmail('alice@mail.test', { resolver, smtpProber, signal: controller.signal }), reason);
+    assert.deepEqual(aborted, ['mx.mail.test']);
+  });
+
+  it('does not start when the signal has already aborted', async () => {
+    const { smtpProber, aborted } = createHangingProber();
+    const reason = new Error('cancelled');
+
+    await assert.rejects(validateEmail('alice@mail.test', { resolver, smtpProber, signal: AbortSignal.abort(reason) }), reason);
+    assert.deepEqual(aborted, []);
+  });
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMemoryDnsResolver } from '@/lib/dns-resolver';
+import { calculateEmailScore, getEmailStatus, validateEmail } from '@/lib/email-validation';
+import {
+  DEFAULT_SCORING_PROFILE,
+  getScoringProfile,
+  isScoringProfileId,
+  SCORING_PROFILES,
+  ScoringProfileId
+} from '@/lib/scoring-profiles';
+import { CheckResult, EmailChecks, unverifiedResult } from '@/lib/validation-result';
+
+const PASSED: CheckResult = { status: 'pass', reason: 'ok' };
+
+// A deliverable business address, with `changes` applied
+function checksWith(changes: Partial<EmailChecks> = {}): EmailChecks {
+  return {
+    ...unverifiedResult('jane@acme.test'),
+    syntax: PASSED,
+    domain: PASSED,
+    mx: PASSED,
+    smtp: PASSED,
+    disposable: PASSED,
+    roleBased: PASSED,
+    catchAll: PASSED,
+    freeProvider: PASSED,
+    ...changes
+  };
+}
+
+function verdict(checks: EmailChecks, id: ScoringProfileId) {
+  const profile = getScoringProfile(id);
+  return getEmailStatus(calculateEmailScore(checks, profile), checks, profile);
+}
+
+describe('scoring profiles', () => {
+  it('gives a fully verified address full marks under every profile', () => {
+    SCORING_PROFILES.forEach(profile => {
+      assert.equal(calculateEmailScore(checksWith(), profile), 100, profile.id);
+      assert.equal(verdict(checksWith(), profile.id), 'valid', profile.id);
+    });
+  });
+
+  it('lets the same checks produce different verdicts', () => {
+    const catchAll = checksWith({ catchAll: { status: 'warning', reason: 'catch_all' } });
+    assert.equal(verdict(catchAll, 'balanced'), 'valid');
+    assert.equal(verdict(catchAll, 'strict'), 'risky');
+  });
+
+  it('withholds more of an unknown check\'s weight under stricter profiles', () => {
+    const timedOut = checksWith({ smtp: { status: 'unknown', reason: 'smtp_timeout' } });
+    const scores = (['signup', 'balanced', 'strict'] as ScoringProfileId[])
+      .map(id => calculateEmailScore(timedOut, getScoringProfile(id)));
+    assert.ok(scores[0] > scores[1] && scores[1] > scores[2], scores.join(' > '));
+    assert.equal(verdict(timedOut, 'balanced'), 'unknown');
+    assert.equal(verdict(timedOut, 'strict'), 'risky');
+  });
+
+  it('charges a free provider only where it matters', () => {
+    const free = checksWith({ freeProvider: { status: 'warning', reason: 'free_provider' } });
+    assert.equal(calculateEmailScore(free, getScoringProfile('balanced')), 100);
+    assert.ok(calculateEmailScore(free, getScoringProfile('marketing')) < 100);
+  });
+
+  it('applies each profile\'s status thresholds', () => {
+    SCORING_PROFILES.forEach(profile => {
+      const { valid, risky } = profile.thresholds;
+      assert.equal(getEmailStatus(valid, checksWith(), profile), 'valid', profile.id);
+      assert.equal(getEmailStatus(valid - 1, checksWith(), profile), 'risky', profile.id);
+      assert.equal(getEmailStatus(risky - 1, checksWith(), profile), 'invalid', profile.id);
+    });
+  });
+
+  it('looks profiles up by id and falls back to balanced', () => {
+    assert.equal(isScoringProfileId('marketing'), true);
+    assert.equal(isScoringProfileId('lenient'), false);
+    assert.equal(getScoringProfile('strict').id, 'strict');
+    assert.equal(getScoringProfile('nope' as ScoringProfileId), DEFAULT_SCORING_PROFILE);
+  });
+
+  it('records the profile on the result', async () => {
+    const result = await validateEmail('not an address', {
+      resolver: createMemoryDnsResolver({}),
+      smtpProber: { connect: async () => { throw new Error('not reached'); } },
+      scoringProfile: getScoringProfile('signup')
+    });
+    assert.equal(result.profile, 'signup');
+  });
+});
@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { smtpCheckFromProbe } from '@/lib/email-validation';
+import { createNodeSmtpProber, isPrivateAddress } from '@/lib/node-smtp-prober';
+import { createSmtpError, SmtpErrorReason, SmtpProber, verifyMailbox } from '@/lib/smtp-prober';
+import { FakeSmtpServer, startFakeSmtpServer } from './fake-smtp-server';
+
+describe('SMTP verification', () => {
+  let server: FakeSmtpServer;
+  const mx = [{ exchange: '127.0.0.1', priority: 10 }];
+
+  before(async () => {
+    server = await startFakeSmtpServer({
+      'alice@example.test': '250 2.1.5 Ok',
+      'josé@example.test': '250 2.1.5 Ok',
+      'busy@example.test': '450 4.2.0 Greylisted, please try again later',
+      'slow@example.test': null
+    });
+  });
+  after(() => server.close());
+
+  const verify = (email: string) => {
+    const prober = createNodeSmtpProber({
+      heloName: 'prober.test',
+      mailFrom: 'verify@prober.test',
+      port: server.port,
+      connectTimeoutMs: 1000,
+      commandTimeoutMs: 200,
+      allowPrivateAddresses: true
+    });
+    return verifyMailbox(email, mx, prober);
+  };
+
+  it('passes a mailbox the server accepts with 250', async () => {
+    const probe = await verify('alice@example.test');
+    assert.equal(probe.outcome, 'pass');
+    assert.equal(probe.code, 250);
+    assert.equal(probe.mxHost, '127.0.0.1');
+    assert.deepEqual(smtpCheckFromProbe(probe), { status: 'pass', reason: 'ok' });
+  });
+
+  it('fails a mailbox rejected with 550 5.1.1', async () => {
+    const probe = await verify('nobody@example.test');
+    assert.equal(probe.outcome, 'fail');
+    assert.equal(probe.code, 550);
+    assert.equal(probe.enhancedCode, '5.1.1');
+    assert.deepEqual(smtpCheckFromProbe(probe), { status: 'fail', reason: 'mailbox_not_found' });
+  });
+
+  it('reports a greylisting 4xx reply as unknown', async () => {
+    const probe = await verify('busy@example.test');
+    assert.equal(probe.outcome, 'unknown');
+    assert.equal(probe.code, 450);
+    assert.deepEqual(smtpCheckFromProbe(probe), { status: 'unknown', reason: 'greylisted' });
+  });
+
+  it('reports a server that never answers RCPT TO as a timeout', async () => {
+    const probe = await verify('slow@example.test');
+    assert.equal(probe.outcome, 'unknown');
+    assert.equal(probe.error, 'timeout');
+    assert.deepEqual(smtpCheckFromProbe(probe), { status: 'unknown', reason: 'smtp_timeout' });
+  });
+
+  it('introduces itself and names the sender before asking', async () => {
+    server.commands.length = 0;
+    await verify('alice@example.test');
+    assert.deepEqual(server.commands, [
+      'EHLO prober.test',
+      'MAIL FROM:<verify@prober.test>',
+      'RCPT TO:<alice@example.test>',
+      'QUIT'
+    ]);
+  });
+
+  it('declares SMTPUTF8 for a UTF-8 mailbox when the server offers it', async () => {
+    server.commands.length = 0;
+    const prober = createNodeSmtpProber({
+      heloName: 'prober.test',
+      mailFrom: 'verify@prober.test',
+      port: server.port,
+      allowPrivateAddresses: true
+    });
+    const probe = await verifyMailbox('josé@example.test', mx, prober, { smtpUtf8: true });
+    assert.equal(probe.outcome, 'pass');
+    assert.equal(probe.smtpUtf8Supported, true);
+    assert.equal(server.commands[1], 'MAIL FROM:<verify@prober.test> SMTPUTF8');
+  });
+
+  it('drops the connection without QUIT once a command has timed out', async () => {
+    server.commands.length = 0;
+    await verify('slow@example.test');
+    assert.deepEqual(server.commands.map(line => line.split(/[ :]/)[0]), ['EHLO', 'MAIL', 'RCPT']);
+  });
+
+  it('refuses to connect to an MX on a private address unless allowed', async () => {
+    server.commands.length = 0;
+    const prober = createNodeSmtpProber({ heloName: 'prober.test', mailFrom: 'verify@prober.test', port: server.port });
+    const probe = await verifyMailbox('alice@example.test', [{ exchange: 'localhost', priority: 10 }, ...mx], prober);
+    assert.equal(probe.error, 'private_address');
+    assert.equal(probe.mxHost, '127.0.0.1');
+    assert.deepEqual(smtpCheckFromProbe(probe), { status: 'unknown', reason: 'smtp_connection_failed' });
+    assert.deepEqual(server.commands, []);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('covers loopback, private and link-local ranges', () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1'].forEach(address => {
+      assert.equal(isPrivateAddress(address), true, address);
+    });
+  });
+
+  it('leaves public addresses alone', () => {
+    ['8.8.8.8', '172.32.0.1', '192.0.2.1', '2001:4860:4860::8888', 'mx.example.com'].forEach(address => {
+      assert.equal(isPrivateAddress(address), false, address);
+    });
+  });
+});
+
+describe('MX failover', () => {
+  const mxRecords = ['mx1.example.test', 'mx2.example.test', 'mx3.example.test']
+    .map((exchange, index) => ({ exchange, priority: (index + 1) * 10 }));
+
+  // Hosts listed in `failures` fail to connect with that reason; the rest
+  // accept every mailbox
+  const createProber = (failures: Record<string, SmtpErrorReason>) => {
+    const attempts: string[] = [];
+    const prober: SmtpProber = {
+      connect: async host => {
+        attempts.push(host);
+        const reason = failures[host];
+        if (reason === 'rejected') {
+          throw createSmtpError(reason, host, { code: 554, enhancedCode: null, message: 'No SMTP service here' });
+        }
+        if (reason) throw createSmtpError(reason, host);
+        return {
+          host,
+          extensions: [],
+          rcptTo: async () => ({ code: 250, enhancedCode: '2.1.5', message: 'Ok' }),
+          close: async () => undefined
+        };
+      }
+    };
+    return { prober, attempts };
+  };
+
+  it('moves on to the next MX when one cannot be reached', async () => {
+    const { prober, attempts } = createProber({ 'mx1.example.test': 'connection_failed', 'mx2.example.test': 'timeout' });
+    const probe = await verifyMailbox('alice@example.test', mxRecords, prober);
+    assert.equal(probe.outcome, 'pass');
+    assert.equal(probe.mxHost, 'mx3.example.test');
+    assert.deepEqual(attempts, ['mx1.example.test', 'mx2.example.test', 'mx3.example.test']);
+  });
+
+  it('takes the answer of the first MX that gives one', async () => {
+    const { prober, attempts } = createProber({ 'mx1.example.test': 'rejected' });
+    const probe = await verifyMailbox('alice@example.test', mxRecords, prober);
+    assert.equal(probe.code, 554);
+    assert.deepEqual(smtpCheckFromProbe(probe), { status: 'unknown', reason: 'smtp_blocked' });
+    assert.deepEqual(attempts, ['mx1.example.test']);
+  });
+
+  it('reports the last failure when no MX can be reached', async () => {
+    const { prober } = createProber({
+      'mx1.example.test': 'timeout',
+      'mx2.example.test': 'private_address',
+      'mx3.example.test': 'connection_failed'
+    });
+    const probe = await verifyMailbox('alice@example.test', mxRecords, prober);
+    assert.equal(probe.error, 'connection_failed');
+    assert.equal(probe.mxHost, 'mx3.example.test');
+  });
+
+  it('stops once the signal has aborted', async () => {
+    const { prober, attempts } = createProber({ 'mx1.example.test': 'timeout' });
+    await verifyMailbox('alice@example.test', mxRecords, prober, { signal: AbortSignal.abort() });
+    assert.deepEqual(attempts, ['mx1.example.test']);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { after, describe, it } from 'node:test';
+import { createSqliteValidationHistory } from '@/lib/sqlite-history';
+import { historyKey, HistoryVerdict } from '@/lib/validation-history';
+import { unverifiedResult } from '@/lib/validation-result';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SQLite validation history', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'truereach-history-'));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  const { syntax, domain, mx, disposable, freeProvider, roleBased, gibberish, catchAll, smtp, domainHealth, reputation, bounces } =
+    unverifiedResult('alice@example.test');
+  const verdict = (daysAgo: number): HistoryVerdict => ({
+    checks: { syntax, domain, mx, disposable, freeProvider, roleBased, gibberish, catchAll, smtp, domainHealth, reputation, bounces },
+    score: 42,
+    status: 'risky',
+    validatedAt: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+    bouncedAt: null
+  });
+
+  it('serves the latest verdict within the window', async () => {
+    const history = createSqliteValidationHistory(join(dir, 'lookup.sqlite'));
+    const key = historyKey('alice@example.test', 'strict');
+    const latest = verdict(3);
+    await history.record(key, 'balanced', verdict(5));
+    await history.record(key, 'balanced', latest);
+
+    assert.deepEqual(await history.lookup(key, 'balanced', 7 * DAY_MS), latest);
+    assert.equal(await history.lookup(key, 'balanced', DAY_MS), null);
+    assert.equal(await history.lookup(key, 'strict', 7 * DAY_MS), null);
+    assert.equal(await history.lookup(historyKey('alice@example.test', 'lenient'), 'balanced', 7 * DAY_MS), null);
+  });
+
+  it('drops verdicts older than the retention window', async () => {
+    const path = join(dir, 'prune.sqlite');
+    const history = createSqliteValidationHistory(path, 7 * DAY_MS);
+    await history.record('strict:old@example.test', 'balanced', verdict(30));
+    await history.record('strict:new@example.test', 'balanced', verdict(1));
+    // Let the pending write reach the file
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    const reopened = createSqliteValidationHistory(path, 365 * DAY_MS);
+    assert.equal(await reopened.lookup('strict:old@example.test', 'balanced', 365 * DAY_MS), null);
+    assert.equal((await reopened.lookup('strict:new@example.test', 'balanced', 365 * DAY_MS))?.status, 'risky');
+  });
+});
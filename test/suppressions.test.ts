@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMemoryDnsResolver } from '@/lib/dns-resolver';
+import { validateEmail } from '@/lib/email-validation';
+import { createOverrideMatcher } from '@/lib/overrides';
+import {
+  createSuppressionMatcher,
+  isSuppressionError,
+  parseSuppressionCsv,
+  SuppressionEntries,
+  SuppressionList,
+  summarizeSuppressionList
+} from '@/lib/suppressions';
+
+function digest(algorithm: 'sha256' | 'md5', value: string): string {
+  return createHash(algorithm).update(value).digest('hex');
+}
+
+function list(id: string, entries: Partial<SuppressionEntries>): SuppressionList {
+  return {
+    id,
+    name: `${id}.csv`,
+    source: 'unsubscribe',
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    entries: { address: [], sha256: [], md5: [], ...entries }
+  };
+}
+
+describe('parseSuppressionCsv', () => {
+  it('reads the address column and sorts hashes by length', () => {
+    const sha256 = digest('sha256', 'a@example.com');
+    const md5 = digest('md5', 'b@example.com');
+    const entries = parseSuppressionCsv(`name,Email\nJohn,John.Doe+x@GMAIL.com\nHash,${sha256.toUpperCase()}\nHash,${md5}\nJunk,n/a\n`);
+    assert.deepEqual(entries, { address: ['johndoe@gmail.com'], sha256: [sha256], md5: [md5] });
+  });
+
+  it('rejects a file with nothing usable in it', () => {
+    assert.throws(() => parseSuppressionCsv('name\nJohn\n'), isSuppressionError);
+  });
+
+  it('summarizes a list without its entries', () => {
+    const summary = summarizeSuppressionList(list('bounces', { address: ['a@example.com'], md5: ['x', 'y'] }));
+    assert.deepEqual(summary.counts, { address: 1, sha256: 0, md5: 2 });
+    assert.equal('entries' in summary, false);
+  });
+});
+
+describe('createSuppressionMatcher', () => {
+  it('matches other spellings of a listed address', () => {
+    const matcher = createSuppressionMatcher([list('unsubs', { address: ['johndoe@gmail.com'] })]);
+    assert.deepEqual(matcher.match('John.Doe+news@googlemail.com'), {
+      listId: 'unsubs',
+      listName: 'unsubs.csv',
+      source: 'unsubscribe',
+      matchedBy: 'address'
+    });
+    assert.equal(matcher.match('jane@gmail.com'), null);
+    assert.equal(matcher.match('not an address'), null);
+  });
+
+  it('matches SHA-256 and MD5 digests of the address as typed or canonical', () => {
+    const matcher = createSuppressionMatcher([
+      list('sha', { sha256: [digest('sha256', 'john.doe@gmail.com')] }),
+      list('md5', { md5: [digest('md5', 'jane@example.com')] })
+    ]);
+    assert.equal(matcher.match(' John.Doe@Gmail.com ')?.matchedBy, 'sha256');
+    assert.equal(matcher.match('JANE@example.com')?.listId, 'md5');
+    assert.equal(matcher.match('jane+x@example.com'), null);
+  });
+
+  it('reports the first list holding an address', () => {
+    const matcher = createSuppressionMatcher([
+      list('first', { address: ['a@example.com'] }),
+      list('second', { address: ['a@example.com'] })
+    ]);
+    assert.equal(matcher.match('a@example.com')?.listId, 'first');
+  });
+});
+
+describe('validateEmail with suppressions', () => {
+  it('reports a listed address as suppressed, over a team override', async () => {
+    const result = await validateEmail('a@example.com', {
+      resolver: createMemoryDnsResolver({}),
+      smtpProber: { connect: async () => { throw new Error('an overridden address is never probed'); } },
+      overrides: createOverrideMatcher([
+        { kind: 'domain', pattern: 'example.com', action: 'valid', note: '', id: '1', createdAt: '2026-01-01T00:00:00.000Z' }
+      ]),
+      suppressions: createSuppressionMatcher([list('unsubs', { address: ['a@example.com'] })])
+    });
+    assert.equal(result.status, 'suppressed');
+    assert.equal(result.suppression?.verdict, 'valid');
+    assert.equal(result.suppression?.listId, 'unsubs');
+  });
+});